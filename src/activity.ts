@@ -0,0 +1,128 @@
+/**
+ * Tool activity → file_change / command_output items.
+ *
+ * Correlates tool_use blocks with their tool_result by tool_use_id. File
+ * tools (Write, Edit, MultiEdit, NotebookEdit) are snapshotted when the
+ * tool_use arrives and re-read when the result comes back, giving a unified
+ * diff; Bash calls become command_output items.
+ *
+ * Newer CLIs attach a `tool_use_result` payload to the result event
+ * (originalFile for edits, stdout/stderr for Bash); it is preferred when
+ * present since it cannot race with the tool itself.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { unifiedDiff } from "./diff.js";
+import type { Item } from "./types.js";
+
+/** Files larger than this are reported without a diff. */
+const MAX_DIFF_BYTES = 512 * 1024;
+
+const FILE_TOOLS: Record<string, string> = {
+  Write:        "file_path",
+  Edit:         "file_path",
+  MultiEdit:    "file_path",
+  NotebookEdit: "notebook_path",
+};
+
+/** File content: string, null (missing) or "too large" (present but not diffed). */
+type Snapshot = string | null | { tooLarge: true };
+
+interface PendingTool {
+  name: string;
+  input: Record<string, unknown>;
+  file?: string;
+  before?: Snapshot;
+}
+
+function readSnapshot(file: string): Snapshot {
+  try {
+    const stat = fs.statSync(file);
+    if (stat.size > MAX_DIFF_BYTES) return { tooLarge: true };
+    return fs.readFileSync(file, "utf-8");
+  } catch {
+    return null;
+  }
+}
+
+export class ToolActivity {
+  private pending = new Map<string, PendingTool>();
+
+  constructor(private readonly cwd: string) {}
+
+  /** Record a finalized tool_use block (and snapshot the file it targets). */
+  onToolUse(id: string, name: string, input: unknown): void {
+    const args = (input ?? {}) as Record<string, unknown>;
+    const key = FILE_TOOLS[name];
+    if (key && typeof args[key] === "string") {
+      const file = path.resolve(this.cwd, args[key] as string);
+      this.pending.set(id, { name, input: args, file, before: readSnapshot(file) });
+    } else if (name === "Bash") {
+      this.pending.set(id, { name, input: args });
+    }
+  }
+
+  /** Items derived from a tool_result, or [] when the tool is not tracked. */
+  onToolResult(id: string, content: string, isError: boolean, toolUseResult?: unknown): Item[] {
+    const tool = this.pending.get(id);
+    if (!tool) return [];
+    this.pending.delete(id);
+    const extra = (toolUseResult && typeof toolUseResult === "object")
+      ? toolUseResult as Record<string, unknown>
+      : {};
+
+    if (tool.name === "Bash") return [this.commandOutput(id, tool, content, isError, extra)];
+    if (isError || !tool.file) return [];   // the edit did not happen
+    const change = this.fileChange(id, tool.file, tool.before ?? null, extra);
+    return change ? [change] : [];
+  }
+
+  private fileChange(
+    id: string,
+    file: string,
+    snapshot: Snapshot,
+    extra: Record<string, unknown>,
+  ): Item | null {
+    const before: Snapshot = typeof extra.originalFile === "string" ? extra.originalFile : snapshot;
+    const after = readSnapshot(file);
+    if (typeof before === "string" && before === after) return null;
+
+    const rel = path.relative(this.cwd, file);
+    const display = rel && !rel.startsWith("..") && !path.isAbsolute(rel) ? rel : file;
+    const operation = before === null ? "create" : after === null ? "delete" : "update";
+    const diffable = (s: Snapshot): s is string | null => typeof s === "string" || s === null;
+
+    return {
+      type: "file_change",
+      tool_use_id: id,
+      path: display,
+      operation,
+      diff: diffable(before) && diffable(after) ? unifiedDiff(display, before, after) : undefined,
+    };
+  }
+
+  private commandOutput(
+    id: string,
+    tool: PendingTool,
+    content: string,
+    isError: boolean,
+    extra: Record<string, unknown>,
+  ): Item {
+    const structured = typeof extra.stdout === "string" || typeof extra.stderr === "string";
+    const stdout = structured ? String(extra.stdout ?? "") : (isError ? "" : content);
+    const stderr = structured ? String(extra.stderr ?? "") : (isError ? content : "");
+    // Failed commands report "Exit code N" in the result text
+    const code = /Exit code (\d+)/i.exec(isError ? content : "");
+
+    return {
+      type: "command_output",
+      tool_use_id: id,
+      command: String(tool.input.command ?? ""),
+      stdout,
+      stderr,
+      exit_code: code ? parseInt(code[1], 10) : (isError ? 1 : 0),
+      interrupted: extra.interrupted === true ? true : undefined,
+    };
+  }
+}
@@ -0,0 +1,165 @@
+/**
+ * Approval bridge — lets the claude CLI ask us before running a tool.
+ *
+ * The CLI supports `--permission-prompt-tool <mcp tool>`: whenever a tool use
+ * needs approval it calls that MCP tool and waits for an allow/deny answer.
+ * We serve a minimal MCP server over HTTP on 127.0.0.1 (JSON responses, no
+ * SSE) exposing a single `approval_prompt` tool. Each turn gets its own
+ * secret URL path so a call can be routed back to the thread/turn it came
+ * from; the HTTP request simply stays open until the client has answered.
+ */
+
+import * as http from "http";
+import { randomBytes } from "crypto";
+import type { AddressInfo } from "net";
+
+export const MCP_SERVER_NAME   = "claude_app_server";
+export const PROMPT_TOOL_NAME  = "approval_prompt";
+/** Fully-qualified name passed to --permission-prompt-tool. */
+export const PERMISSION_PROMPT_TOOL = `mcp__${MCP_SERVER_NAME}__${PROMPT_TOOL_NAME}`;
+
+export type ApprovalDecision = "allow" | "deny" | "allow_always";
+
+export interface ApprovalPrompt {
+  tool_name: string;
+  input: unknown;
+  tool_use_id?: string;
+}
+
+/** What the permission prompt tool must answer (serialized as text content). */
+export type PromptResult =
+  | { behavior: "allow"; updatedInput: unknown }
+  | { behavior: "deny"; message: string };
+
+export type PromptHandler = (prompt: ApprovalPrompt) => Promise<PromptResult>;
+
+interface McpRequest {
+  jsonrpc: "2.0";
+  id?: string | number;
+  method: string;
+  params?: { protocolVersion?: string; name?: string; arguments?: unknown };
+}
+
+const PROMPT_TOOL = {
+  name: PROMPT_TOOL_NAME,
+  description: "Ask the connected claude-app-server client to approve a tool use.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      tool_name:   { type: "string" },
+      input:       { type: "object" },
+      tool_use_id: { type: "string" },
+    },
+    required: ["tool_name", "input"],
+  },
+};
+
+// ─── Rules ────────────────────────────────────────────────────────────────────
+
+/**
+ * Rule remembered for "allow_always". Bash is scoped to the exact command
+ * (in claude's `Bash(<command>)` syntax); every other tool by name.
+ */
+export function approvalRule(prompt: ApprovalPrompt): string {
+  if (prompt.tool_name === "Bash") {
+    const cmd = (prompt.input as { command?: unknown } | null)?.command;
+    if (typeof cmd === "string") return `Bash(${cmd})`;
+  }
+  return prompt.tool_name;
+}
+
+// ─── ApprovalBridge ───────────────────────────────────────────────────────────
+
+export class ApprovalBridge {
+  private server?: http.Server;
+  private port = 0;
+  private handlers = new Map<string, PromptHandler>();
+
+  constructor(private readonly log: (...args: unknown[]) => void = () => {}) {}
+
+  /** Start listening (idempotent). */
+  async start(): Promise<void> {
+    if (this.server) return;
+    const server = http.createServer((req, res) => this.onRequest(req, res));
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(0, "127.0.0.1", () => resolve());
+    });
+    this.port = (server.address() as AddressInfo).port;
+    server.unref();   // never keep the process alive on our own
+    this.server = server;
+    this.log(`approval bridge listening on 127.0.0.1:${this.port}`);
+  }
+
+  close(): void {
+    this.server?.close();
+    this.server = undefined;
+  }
+
+  /**
+   * Route prompts for one turn to `handler`. Returns the value for
+   * --mcp-config and a function that unregisters the route.
+   */
+  register(handler: PromptHandler): { mcpConfig: string; dispose: () => void } {
+    const token = randomBytes(16).toString("hex");
+    this.handlers.set(token, handler);
+    const mcpConfig = JSON.stringify({
+      mcpServers: {
+        [MCP_SERVER_NAME]: { type: "http", url: `http://127.0.0.1:${this.port}/mcp/${token}` },
+      },
+    });
+    return { mcpConfig, dispose: () => { this.handlers.delete(token); } };
+  }
+
+  // ── HTTP / MCP handling ─────────────────────────────────────────────────
+
+  private onRequest(req: http.IncomingMessage, res: http.ServerResponse): void {
+    const match = /^\/mcp\/([0-9a-f]+)$/.exec(req.url ?? "");
+    const handler = match && this.handlers.get(match[1]);
+    if (!handler) { res.writeHead(404).end(); return; }
+    if (req.method !== "POST") { res.writeHead(405).end(); return; }
+
+    let body = "";
+    req.on("data", (d: Buffer) => { body += d.toString(); });
+    req.on("end", () => {
+      let msg: McpRequest;
+      try { msg = JSON.parse(body) as McpRequest; } catch { res.writeHead(400).end(); return; }
+
+      // Notifications (e.g. notifications/initialized) need no answer
+      if (msg.id === undefined) { res.writeHead(202).end(); return; }
+
+      this.handleMcp(msg, handler)
+        .then((result) => reply(res, { jsonrpc: "2.0", id: msg.id, result }))
+        .catch((err: unknown) => reply(res, {
+          jsonrpc: "2.0", id: msg.id, error: { code: -32603, message: String(err) },
+        }));
+    });
+  }
+
+  private async handleMcp(msg: McpRequest, handler: PromptHandler): Promise<unknown> {
+    switch (msg.method) {
+      case "initialize":
+        return {
+          protocolVersion: msg.params?.protocolVersion ?? "2025-03-26",
+          capabilities:    { tools: {} },
+          serverInfo:      { name: MCP_SERVER_NAME, version: "1.0.0" },
+        };
+      case "ping":
+        return {};
+      case "tools/list":
+        return { tools: [PROMPT_TOOL] };
+      case "tools/call": {
+        if (msg.params?.name !== PROMPT_TOOL_NAME) throw new Error(`Unknown tool: ${msg.params?.name}`);
+        const decision = await handler(msg.params.arguments as ApprovalPrompt);
+        return { content: [{ type: "text", text: JSON.stringify(decision) }] };
+      }
+      default:
+        throw new Error(`Unsupported method: ${msg.method}`);
+    }
+  }
+}
+
+function reply(res: http.ServerResponse, payload: unknown): void {
+  res.writeHead(200, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(payload));
+}
@@ -0,0 +1,219 @@
+/**
+ * Device pairing for the WebSocket transport.
+ *
+ * A new device connects, calls initialize, and trades the one-time pair key
+ * (shown in the start banner and QR code) for a long-lived device token with
+ * auth/pair. The key is replaced as soon as it has been used. Later
+ * connections present the token, either as `Authorization: Bearer <token>` on
+ * the WebSocket upgrade or as `token` in initialize.
+ *
+ * Paired devices live in `devices.json` in the config directory (mode 0600).
+ * Only a SHA-256 hash of each token is stored. The file is re-read on every
+ * check, and the server checks a connection's device again before each of
+ * its requests, so `claude-app-server devices revoke` works on a running
+ * server: the device's open connections are closed at their next request.
+ *
+ * Failed pair keys and tokens are counted. An address with MAX_FAILURES
+ * failures within FAILURE_WINDOW_MS is refused (RateLimited) until the oldest
+ * one leaves the window.
+ */
+
+import { createHash, randomBytes, timingSafeEqual } from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import { v4 as uuid } from "uuid";
+import { E, RpcException } from "./protocol.js";
+
+const MAX_FAILURES = 5;
+const FAILURE_WINDOW_MS = 10 * 60 * 1000;
+const PAIR_KEY_LENGTH = 8;
+const MAX_DEVICE_NAME = 100;
+
+/** A paired device, as shown to clients. */
+export interface DeviceInfo {
+  device_id: string;
+  name: string;
+  created_at: number;
+  last_seen_at?: number;
+}
+
+interface DeviceRecord extends DeviceInfo {
+  token_sha256: string;
+}
+
+export interface PairResult {
+  device: DeviceInfo;
+  /** Shown once; only its hash is kept. */
+  token: string;
+}
+
+export function generatePairKey(): string {
+  // No 0/O, 1/l/I: the key is often typed in by hand
+  const chars = "ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz23456789";
+  const bytes = randomBytes(PAIR_KEY_LENGTH);
+  let key = "";
+  for (let i = 0; i < PAIR_KEY_LENGTH; i++) {
+    key += chars[bytes[i] % chars.length];
+  }
+  return key;
+}
+
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+/** Constant-time string comparison, so a guessed key leaks nothing through timing. */
+function sameSecret(a: string, b: string): boolean {
+  const x = Buffer.from(a);
+  const y = Buffer.from(b);
+  return x.length === y.length && timingSafeEqual(x, y);
+}
+
+function publicInfo(d: DeviceRecord): DeviceInfo {
+  return { device_id: d.device_id, name: d.name, created_at: d.created_at, last_seen_at: d.last_seen_at };
+}
+
+// ─── Device registry ──────────────────────────────────────────────────────────
+
+/** The devices.json file. Every call reads (and, for changes, rewrites) it. */
+export class DeviceRegistry {
+  constructor(readonly file: string) {}
+
+  list(): DeviceInfo[] {
+    return this.read().map(publicInfo);
+  }
+
+  add(name: string): PairResult {
+    const token = "cas_" + randomBytes(32).toString("base64url");
+    const record: DeviceRecord = {
+      device_id:    uuid(),
+      name,
+      created_at:   Date.now(),
+      token_sha256: hashToken(token),
+    };
+    this.write([...this.read(), record]);
+    return { device: publicInfo(record), token };
+  }
+
+  /** The device holding `token` (its last_seen_at is bumped), if any. */
+  verify(token: string): DeviceInfo | undefined {
+    const hash = hashToken(token);
+    const devices = this.read();
+    const device = devices.find(d => d.token_sha256 === hash);
+    if (!device) return undefined;
+    device.last_seen_at = Date.now();
+    this.write(devices);
+    return publicInfo(device);
+  }
+
+  /** Whether `deviceId` is still paired. */
+  has(deviceId: string): boolean {
+    return this.read().some(d => d.device_id === deviceId);
+  }
+
+  /** Remove a device. Returns it, if it was paired. */
+  revoke(deviceId: string): DeviceInfo | undefined {
+    const devices = this.read();
+    const device = devices.find(d => d.device_id === deviceId);
+    if (!device) return undefined;
+    this.write(devices.filter(d => d !== device));
+    return publicInfo(device);
+  }
+
+  private read(): DeviceRecord[] {
+    try {
+      const data = JSON.parse(fs.readFileSync(this.file, "utf-8")) as { devices?: DeviceRecord[] };
+      return Array.isArray(data.devices) ? data.devices : [];
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") return [];
+      throw err;
+    }
+  }
+
+  private write(devices: DeviceRecord[]): void {
+    fs.mkdirSync(path.dirname(this.file), { recursive: true });
+    // Write-then-rename so a crash never leaves a truncated file
+    const tmp = `${this.file}.${process.pid}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify({ devices }, null, 2) + "\n", { mode: 0o600 });
+    fs.renameSync(tmp, this.file);
+  }
+}
+
+// ─── Pairing ──────────────────────────────────────────────────────────────────
+
+export interface DeviceAuthOptions {
+  /** Called with each new pair key (after the previous one was used). */
+  onPairKey?: (key: string) => void;
+  log?: (...args: unknown[]) => void;
+}
+
+export class DeviceAuth {
+  readonly registry: DeviceRegistry;
+  private key = generatePairKey();
+  /** remote address → times of recent failures */
+  private failures = new Map<string, number[]>();
+  private failedAttempts = 0;
+
+  constructor(file: string, private readonly opts: DeviceAuthOptions = {}) {
+    this.registry = new DeviceRegistry(file);
+  }
+
+  get pairKey(): string {
+    return this.key;
+  }
+
+  /** Failed pair keys and tokens since the server started. */
+  get failedCount(): number {
+    return this.failedAttempts;
+  }
+
+  /** Trade the current pair key for a device token. The key is then replaced. */
+  pair(key: string, name: string, remote: string): PairResult {
+    this.checkRate(remote);
+    if (!sameSecret(key, this.key)) {
+      this.fail(remote, "pair key");
+      throw new RpcException(E.Unauthorized, "Invalid pair key.");
+    }
+    const result = this.registry.add(name.trim().slice(0, MAX_DEVICE_NAME) || "unnamed device");
+    this.failures.delete(remote);
+    this.key = generatePairKey();
+    this.opts.log?.(`auth: paired ${result.device.name} (${result.device.device_id}) from ${remote}`);
+    this.opts.onPairKey?.(this.key);
+    return result;
+  }
+
+  /** The device a token belongs to. Throws Unauthorized / RateLimited. */
+  login(token: string, remote: string): DeviceInfo {
+    this.checkRate(remote);
+    const device = this.registry.verify(token);
+    if (!device) {
+      this.fail(remote, "token");
+      throw new RpcException(E.Unauthorized, "Unknown or revoked device token.");
+    }
+    return device;
+  }
+
+  private checkRate(remote: string): void {
+    const now = Date.now();
+    const recent = (this.failures.get(remote) ?? []).filter(t => now - t < FAILURE_WINDOW_MS);
+    if (recent.length > 0) this.failures.set(remote, recent);
+    else this.failures.delete(remote);
+    if (recent.length >= MAX_FAILURES) {
+      const retryAfterMs = recent[0] + FAILURE_WINDOW_MS - now;
+      throw new RpcException(E.RateLimited,
+        `Too many failed attempts. Try again in ${Math.ceil(retryAfterMs / 1000)}s.`,
+        { retry_after_ms: retryAfterMs });
+    }
+  }
+
+  private fail(remote: string, what: string): void {
+    this.failedAttempts++;
+    const recent = this.failures.get(remote) ?? [];
+    recent.push(Date.now());
+    this.failures.set(remote, recent);
+    process.stderr.write(
+      `[claude-app-server] failed ${what} attempt from ${remote} ` +
+      `(${recent.length}/${MAX_FAILURES}, ${this.failedAttempts} total)\n`,
+    );
+  }
+}
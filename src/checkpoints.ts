@@ -0,0 +1,200 @@
+/**
+ * Workspace checkpoints backed by hidden git refs.
+ *
+ * Before and after every turn the whole working tree (minus ignored files) is
+ * written to a commit through a temporary index, so the user's index and
+ * branches are never touched, and kept alive under
+ *   refs/claude-app-server/<thread_id>/<turn_id>-{before,after}
+ *
+ * Undoing turns restores every path a turn changed (before → after) to its
+ * pre-turn content, but only if the file still matches what the agent left
+ * behind; anything edited outside the agent since then is reported as a
+ * conflict instead of being overwritten.
+ */
+
+import { execFile } from "child_process";
+import { randomBytes } from "crypto";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { promisify } from "util";
+
+const execFileP = promisify(execFile);
+
+const REF_PREFIX = "refs/claude-app-server";
+
+/** Identity for checkpoint commits so they work without user.name configured. */
+const GIT_IDENTITY = {
+  GIT_AUTHOR_NAME:     "claude-app-server",
+  GIT_AUTHOR_EMAIL:    "claude-app-server@localhost",
+  GIT_COMMITTER_NAME:  "claude-app-server",
+  GIT_COMMITTER_EMAIL: "claude-app-server@localhost",
+};
+
+/** One undoable turn: checkpoint commits taken around it. */
+export interface CheckpointPair {
+  before: string;
+  after: string;
+}
+
+export interface RestorePlan {
+  root: string;
+  /** path (relative to repo root) → commit to restore it from */
+  restore: Map<string, string>;
+  /** Paths changed outside the agent since the checkpoint. */
+  conflicts: string[];
+}
+
+// ─── git plumbing ─────────────────────────────────────────────────────────────
+
+/** Pathspecs are literal: a file named `*.ts` must not stand for every .ts file. */
+async function git(cwd: string, args: string[], env: Record<string, string> = {}): Promise<string> {
+  const { stdout } = await execFileP("git", args, {
+    cwd,
+    env: { ...process.env, GIT_LITERAL_PATHSPECS: "1", ...env },
+    maxBuffer: 64 * 1024 * 1024,
+  });
+  return stdout;
+}
+
+function splitZ(out: string): string[] {
+  return out.split("\0").filter(Boolean);
+}
+
+/** Top-level directory of the git work tree containing `cwd`, or null. */
+export async function repoRoot(cwd: string): Promise<string | null> {
+  try {
+    return (await git(cwd, ["rev-parse", "--show-toplevel"])).trim() || null;
+  } catch {
+    return null;
+  }
+}
+
+/** Run `fn` with GIT_INDEX_FILE pointing at a throwaway index (seeded from the real one). */
+async function withTempIndex<T>(root: string, fn: (env: Record<string, string>) => Promise<T>): Promise<T> {
+  const tmp = path.join(os.tmpdir(), `claude-app-server-index-${randomBytes(8).toString("hex")}`);
+  try {
+    // Seeding with the real index keeps `git add -A` fast (stat cache)
+    const realIndex = path.resolve(root, (await git(root, ["rev-parse", "--git-path", "index"])).trim());
+    try { fs.copyFileSync(realIndex, tmp); } catch { /* fresh repo without an index */ }
+    return await fn({ GIT_INDEX_FILE: tmp });
+  } finally {
+    fs.rmSync(tmp, { force: true });
+  }
+}
+
+/** Tree object for the current working tree (tracked + untracked, not ignored). */
+async function worktreeTree(root: string): Promise<string> {
+  return withTempIndex(root, async (env) => {
+    await git(root, ["add", "-A"], env);
+    return (await git(root, ["write-tree"], env)).trim();
+  });
+}
+
+/** Paths that differ between two tree-ish objects, optionally limited to `paths`. */
+async function changedPaths(root: string, a: string, b: string, paths?: string[]): Promise<string[]> {
+  if (paths && paths.length === 0) return [];
+  const args = ["diff-tree", "-r", "--no-renames", "--name-only", "-z", a, b];
+  if (paths) args.push("--", ...paths);
+  return splitZ(await git(root, args));
+}
+
+/** Which of `paths` exist in `treeish`. */
+async function existingPaths(root: string, treeish: string, paths: string[]): Promise<Set<string>> {
+  if (paths.length === 0) return new Set();
+  const out = await git(root, ["ls-tree", "-r", "-z", "--name-only", treeish, "--", ...paths]);
+  return new Set(splitZ(out));
+}
+
+// ─── Public API ───────────────────────────────────────────────────────────────
+
+/**
+ * Snapshot the working tree containing `cwd` under `<prefix>/<name>`.
+ * Returns the checkpoint commit, or null when `cwd` is not in a git repo.
+ */
+export async function createCheckpoint(cwd: string, name: string): Promise<string | null> {
+  const root = await repoRoot(cwd);
+  if (!root) return null;
+  const tree = await worktreeTree(root);
+  const commit = (await git(root, ["commit-tree", tree, "-m", `claude-app-server checkpoint ${name}`], GIT_IDENTITY)).trim();
+  await git(root, ["update-ref", `${REF_PREFIX}/${name}`, commit]);
+  return commit;
+}
+
+/**
+ * Work out how to undo `steps` (chronological). Each changed path is restored
+ * from the first step that touched it; it must still match the last step that
+ * touched it, and must not have changed between steps.
+ */
+export async function planRestore(cwd: string, steps: CheckpointPair[]): Promise<RestorePlan> {
+  const root = await repoRoot(cwd);
+  if (!root) throw new Error(`Not a git repository: ${cwd}`);
+
+  const restore = new Map<string, string>();   // path → restore-from commit
+  const expect  = new Map<string, string>();   // path → commit whose content should be current
+  const conflicts = new Set<string>();
+
+  for (const step of steps) {
+    const paths = await changedPaths(root, step.before, step.after);
+
+    // A path touched again: it must be unchanged between the two turns
+    const byExpect = groupBy(paths.filter(p => expect.has(p)), p => expect.get(p)!);
+    for (const [prev, group] of byExpect) {
+      for (const p of await changedPaths(root, prev, step.before, group)) conflicts.add(p);
+    }
+
+    for (const p of paths) {
+      if (!restore.has(p)) restore.set(p, step.before);
+      expect.set(p, step.after);
+    }
+  }
+
+  // And the working tree must still hold what the agent left behind
+  const current = await worktreeTree(root);
+  for (const [commit, group] of groupBy([...expect.keys()], p => expect.get(p)!)) {
+    for (const p of await changedPaths(root, commit, current, group)) conflicts.add(p);
+  }
+
+  return { root, restore, conflicts: [...conflicts].sort() };
+}
+
+/** Apply a conflict-free plan: rewrite or delete each path in the working tree. */
+export async function applyRestore(plan: RestorePlan): Promise<string[]> {
+  const { root } = plan;
+  for (const [commit, paths] of groupBy([...plan.restore.keys()], p => plan.restore.get(p)!)) {
+    const present = await existingPaths(root, commit, paths);
+    const toCheckout = paths.filter(p => present.has(p));
+
+    // Files the turn created did not exist before it
+    for (const p of paths) {
+      if (!present.has(p)) fs.rmSync(path.join(root, p), { force: true });
+    }
+
+    if (toCheckout.length > 0) {
+      await withTempIndex(root, async (env) => {
+        await git(root, ["read-tree", commit], env);
+        await git(root, ["checkout-index", "-f", "--", ...toCheckout], env);
+      });
+    }
+  }
+  return [...plan.restore.keys()].sort();
+}
+
+/** Delete every checkpoint ref recorded for a thread. */
+export async function deleteCheckpoints(cwd: string, threadId: string): Promise<void> {
+  const root = await repoRoot(cwd);
+  if (!root) return;
+  const refs = (await git(root, ["for-each-ref", "--format=%(refname)", `${REF_PREFIX}/${threadId}/`]))
+    .split("\n").filter(Boolean);
+  for (const ref of refs) await git(root, ["update-ref", "-d", ref]);
+}
+
+function groupBy<T>(items: T[], key: (item: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const k = key(item);
+    const g = groups.get(k);
+    if (g) g.push(item); else groups.set(k, [item]);
+  }
+  return groups;
+}
@@ -0,0 +1,345 @@
+/**
+ * Server configuration file and agent profiles.
+ *
+ * Settings are read from, in increasing order of precedence:
+ *   <config dir>/config.json      (or the file given with --config)
+ *   ./.claude-app-server.json     project override, in the directory the
+ *                                 server is started from
+ *   command-line flags
+ *
+ *   {
+ *     "port": 3284, "tls": true, "cert": "…", "key": "…", "data_dir": "…",
+ *     "model": "claude-sonnet-4-6", "fallback_model": "claude-haiku-4-5",
+ *     "models": [{ "id": "claude-sonnet-4-6", "name": "Sonnet", "aliases": ["sonnet"] }],
+ *     "permission_mode": "default",
+ *     "append_system_prompt": "Use pnpm. Never push to main.",
+ *     "approval_timeout": 300, "replay_buffer": 1000,
+ *     "budgets": { "thread_usd": 5, "connection_usd": 20, "daily_usd": 50 },
+ *     "max_concurrent": 8, "max_per_connection": 2,
+ *     "turn_timeout": 3600, "idle_timeout": 600, "kill_grace": 5,
+ *     "workspaces": ["~/code", "/srv/projects"],
+ *     "allow_client_mcp_commands": false,
+ *     "default_profile": "review",
+ *     "profiles": {
+ *       "review": {
+ *         "description": "Read-only code review",
+ *         "model": "claude-opus-4-6",
+ *         "permission_mode": "default",
+ *         "append_system_prompt": "Only review; never edit files.",
+ *         "allowed_tools": ["Read", "Grep", "Glob"],
+ *         "mcp_servers": { "github": { "command": "github-mcp", "args": [] } }
+ *       }
+ *     }
+ *   }
+ *
+ * Times are in seconds. Paths may start with `~`; relative ones are relative
+ * to the file they are in.
+ * The project file overrides keys of the user file one by one (`budgets`
+ * field by field, `profiles` profile by profile). Model names must be in the
+ * catalog (`models`, or the built-in one).
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { MCP_SERVER_NAME } from "./approvals.js";
+import { DEFAULT_MODELS, findModel, modelNames, type ModelInfo } from "./models.js";
+import { expandHome } from "./paths.js";
+import type { Budgets } from "./usage.js";
+import type { PermissionMode } from "./types.js";
+
+export const PROJECT_CONFIG_FILE = ".claude-app-server.json";
+
+export const PERMISSION_MODES: PermissionMode[] = ["default", "acceptEdits", "bypassPermissions", "dontAsk"];
+
+/** An MCP server entry, passed to the CLI's --mcp-config as-is. */
+export type McpServerConfig =
+  | { type?: "stdio"; command: string; args?: string[]; env?: Record<string, string> }
+  | { type: "http" | "sse"; url: string; headers?: Record<string, string> };
+
+/** A named bundle of agent settings, picked with thread/start { profile }. */
+export interface Profile {
+  description?: string;
+  model?: string;
+  permission_mode?: PermissionMode;
+  append_system_prompt?: string;
+  allowed_tools?: string[];
+  mcp_servers?: Record<string, McpServerConfig>;
+}
+
+export interface ServerConfig {
+  port?: number;
+  tls?: boolean;
+  cert?: string;
+  key?: string;
+  data_dir?: string;
+  model?: string;
+  /** Used when the model is overloaded (--fallback-model). */
+  fallback_model?: string;
+  /** Replaces the built-in model catalog. */
+  models?: ModelInfo[];
+  permission_mode?: PermissionMode;
+  /** Appended to every turn's system prompt; clients cannot remove it. */
+  append_system_prompt?: string;
+  approval_timeout?: number;
+  replay_buffer?: number;
+  budgets?: Budgets;
+  max_concurrent?: number;
+  max_per_connection?: number;
+  turn_timeout?: number;
+  idle_timeout?: number;
+  kill_grace?: number;
+  /** Directories threads may run in; unset or empty = anywhere. */
+  workspaces?: string[];
+  /** Let clients define stdio MCP servers, i.e. commands the CLI runs. */
+  allow_client_mcp_commands?: boolean;
+  default_profile?: string;
+  profiles?: Record<string, Profile>;
+}
+
+export class ConfigError extends Error {
+  constructor(file: string, message: string) {
+    super(`${file}: ${message}`);
+    this.name = "ConfigError";
+  }
+}
+
+/**
+ * Read and merge the user and project config files. Missing files are
+ * skipped; invalid ones throw ConfigError. Returns the merged config and the
+ * files it came from.
+ */
+export function loadConfig(userFile: string, projectDir: string): { config: ServerConfig; files: string[] } {
+  const files: string[] = [];
+  let config: ServerConfig = {};
+  for (const file of [userFile, path.join(projectDir, PROJECT_CONFIG_FILE)]) {
+    const layer = readConfigFile(file);
+    if (!layer) continue;
+    files.push(file);
+    config = mergeConfig(config, layer);
+  }
+  const last = files[files.length - 1];
+  if (config.default_profile && !config.profiles?.[config.default_profile]) {
+    throw new ConfigError(last, `default_profile "${config.default_profile}" is not defined in profiles`);
+  }
+  const catalog = config.models ?? DEFAULT_MODELS;
+  const named: [string, string | undefined][] = [
+    ["model", config.model],
+    ["fallback_model", config.fallback_model],
+    ...Object.entries(config.profiles ?? {}).map(([name, p]): [string, string | undefined] => [`profiles.${name}.model`, p.model]),
+  ];
+  for (const [where, model] of named) {
+    if (model !== undefined && !findModel(catalog, model)) {
+      throw new ConfigError(last, `${where}: unknown model "${model}" (known: ${modelNames(catalog).join(", ")})`);
+    }
+  }
+  return { config, files };
+}
+
+function readConfigFile(file: string): ServerConfig | undefined {
+  let text: string;
+  try {
+    text = fs.readFileSync(file, "utf-8");
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+    throw new ConfigError(file, String(err));
+  }
+  let raw: unknown;
+  try { raw = JSON.parse(text); } catch (err) {
+    throw new ConfigError(file, `invalid JSON (${err instanceof Error ? err.message : err})`);
+  }
+  const config = validateConfig(raw, (msg) => new ConfigError(file, msg));
+  // Paths are relative to the file that names them
+  const dir = path.dirname(path.resolve(file));
+  for (const key of ["cert", "key", "data_dir"] as const) {
+    if (config[key]) config[key] = path.resolve(dir, expandHome(config[key]!));
+  }
+  config.workspaces = config.workspaces?.map(w => path.resolve(dir, expandHome(w)));
+  return config;
+}
+
+function mergeConfig(base: ServerConfig, over: ServerConfig): ServerConfig {
+  return {
+    ...base,
+    ...over,
+    budgets:  base.budgets || over.budgets ? { ...base.budgets, ...over.budgets } : undefined,
+    profiles: base.profiles || over.profiles ? { ...base.profiles, ...over.profiles } : undefined,
+  };
+}
+
+// ─── Validation ───────────────────────────────────────────────────────────────
+
+type Fail = (message: string) => Error;
+
+const isObject = (v: unknown): v is Record<string, unknown> =>
+  typeof v === "object" && v !== null && !Array.isArray(v);
+
+export interface NumberRange {
+  min: number;
+  max?: number;
+  integer?: boolean;
+  /** Whether `min` itself is allowed (default true). */
+  inclusive?: boolean;
+}
+
+/** setTimeout() takes at most 2^31 - 1 ms; longer delays fire at once. */
+const MAX_TIMER_SECONDS = 2_147_483;
+
+/** Allowed values of the numeric settings, for the config file and the command-line flags alike. */
+export const NUMBER_RANGES = {
+  port:               { min: 1, max: 65535, integer: true },
+  approval_timeout:   { min: 0, max: MAX_TIMER_SECONDS, inclusive: false },
+  replay_buffer:      { min: 0, integer: true },
+  max_concurrent:     { min: 1, integer: true },
+  max_per_connection: { min: 1, integer: true },
+  turn_timeout:       { min: 0, max: MAX_TIMER_SECONDS },
+  idle_timeout:       { min: 0, max: MAX_TIMER_SECONDS },
+  kill_grace:         { min: 0, max: MAX_TIMER_SECONDS },
+  budget:             { min: 0 },
+} satisfies Record<string, NumberRange>;
+
+export function inRange(value: unknown, range: NumberRange): value is number {
+  return typeof value === "number" && Number.isFinite(value)
+    && (range.inclusive === false ? value > range.min : value >= range.min)
+    && (range.max === undefined || value <= range.max)
+    && (!range.integer || Number.isInteger(value));
+}
+
+/** "an integer from 1 to 65535", "a number above 0", … */
+export function describeRange(range: NumberRange): string {
+  const what = range.integer ? "an integer" : "a number";
+  if (range.max !== undefined) {
+    return range.inclusive === false
+      ? `${what} above ${range.min} and at most ${range.max}`
+      : `${what} from ${range.min} to ${range.max}`;
+  }
+  return range.inclusive === false ? `${what} above ${range.min}` : `${what} of at least ${range.min}`;
+}
+
+const NUMBER_KEYS = [
+  "port", "approval_timeout", "replay_buffer", "max_concurrent", "max_per_connection",
+  "turn_timeout", "idle_timeout", "kill_grace",
+] as const;
+const STRING_KEYS = [
+  "cert", "key", "data_dir", "model", "fallback_model", "append_system_prompt", "default_profile",
+] as const;
+const KNOWN_KEYS = new Set<string>([
+  ...NUMBER_KEYS, ...STRING_KEYS, "tls", "allow_client_mcp_commands", "models", "permission_mode", "budgets", "workspaces", "profiles",
+]);
+
+function validateConfig(raw: unknown, fail: Fail): ServerConfig {
+  if (!isObject(raw)) throw fail("expected a JSON object");
+  for (const key of Object.keys(raw)) {
+    if (!KNOWN_KEYS.has(key)) throw fail(`unknown setting "${key}"`);
+  }
+  for (const key of NUMBER_KEYS) {
+    if (raw[key] !== undefined && !inRange(raw[key], NUMBER_RANGES[key])) {
+      throw fail(`"${key}" must be ${describeRange(NUMBER_RANGES[key])}`);
+    }
+  }
+  for (const key of STRING_KEYS) {
+    if (raw[key] !== undefined && typeof raw[key] !== "string") throw fail(`"${key}" must be a string`);
+  }
+  for (const key of ["tls", "allow_client_mcp_commands"]) {
+    if (raw[key] !== undefined && typeof raw[key] !== "boolean") throw fail(`"${key}" must be true or false`);
+  }
+  checkPermissionMode(raw.permission_mode, "permission_mode", fail);
+  if (raw.workspaces !== undefined &&
+      !(Array.isArray(raw.workspaces) && raw.workspaces.every(w => typeof w === "string" && w))) {
+    throw fail(`"workspaces" must be an array of directory paths`);
+  }
+
+  if (raw.models !== undefined) {
+    if (!Array.isArray(raw.models) || raw.models.length === 0) throw fail(`"models" must be a non-empty array`);
+    raw.models.forEach((m: unknown, i) => {
+      if (!isObject(m) || typeof m.id !== "string" || !m.id) throw fail(`models[${i}].id must be a non-empty string`);
+      if (m.name !== undefined && typeof m.name !== "string") throw fail(`models[${i}].name must be a string`);
+      if (m.aliases !== undefined &&
+          !(Array.isArray(m.aliases) && m.aliases.every(a => typeof a === "string" && a))) {
+        throw fail(`models[${i}].aliases must be an array of strings`);
+      }
+    });
+  }
+
+  if (raw.budgets !== undefined) {
+    if (!isObject(raw.budgets)) throw fail(`"budgets" must be an object`);
+    for (const [key, value] of Object.entries(raw.budgets)) {
+      if (!["thread_usd", "connection_usd", "daily_usd"].includes(key)) throw fail(`unknown budget "${key}"`);
+      if (!inRange(value, NUMBER_RANGES.budget)) throw fail(`budgets.${key} must be ${describeRange(NUMBER_RANGES.budget)}`);
+    }
+  }
+
+  if (raw.profiles !== undefined) {
+    if (!isObject(raw.profiles)) throw fail(`"profiles" must be an object`);
+    for (const [name, profile] of Object.entries(raw.profiles)) {
+      validateProfile(profile, `profiles.${name}`, fail);
+    }
+  }
+  return raw as ServerConfig;
+}
+
+function validateProfile(raw: unknown, where: string, fail: Fail): void {
+  if (!isObject(raw)) throw fail(`${where} must be an object`);
+  const known = ["description", "model", "permission_mode", "append_system_prompt", "allowed_tools", "mcp_servers"];
+  for (const key of Object.keys(raw)) {
+    if (!known.includes(key)) throw fail(`unknown setting "${key}" in ${where}`);
+  }
+  for (const key of ["description", "model", "append_system_prompt"]) {
+    if (raw[key] !== undefined && typeof raw[key] !== "string") throw fail(`${where}.${key} must be a string`);
+  }
+  checkPermissionMode(raw.permission_mode, `${where}.permission_mode`, fail);
+  if (raw.allowed_tools !== undefined &&
+      !(Array.isArray(raw.allowed_tools) && raw.allowed_tools.every(t => typeof t === "string"))) {
+    throw fail(`${where}.allowed_tools must be an array of strings`);
+  }
+  if (raw.mcp_servers !== undefined) raw.mcp_servers = validateMcpServers(raw.mcp_servers, `${where}.mcp_servers`, fail);
+}
+
+/**
+ * Check a map of MCP server definitions: `{ command, args?, env? }` for a
+ * stdio server, `{ type: "http" | "sse", url, headers? }` for a remote one.
+ * Used for profiles and for thread/start { mcp_servers }. Entries with a
+ * `url` and no `type` come back with `type: "http"`, as the CLI needs it.
+ * URLs must be loopback ones: MCP servers are meant to be local services.
+ */
+export function validateMcpServers(raw: unknown, where: string, fail: Fail): Record<string, McpServerConfig> {
+  if (!isObject(raw)) throw fail(`${where} must be an object`);
+  const isStrings = (v: unknown) => Array.isArray(v) && v.every(s => typeof s === "string");
+  const isStringMap = (v: unknown) => isObject(v) && Object.values(v).every(s => typeof s === "string");
+
+  const servers: Record<string, McpServerConfig> = {};
+  for (const [name, server] of Object.entries(raw)) {
+    const at = `${where}.${name}`;
+    if (!/^[\w-]+$/.test(name)) throw fail(`${at}: server names may only contain letters, digits, "_" and "-"`);
+    if (name === MCP_SERVER_NAME) throw fail(`${at}: "${MCP_SERVER_NAME}" is reserved for the approval bridge`);
+    if (!isObject(server)) throw fail(`${at} must be an object`);
+
+    const type = server.type ?? (server.url !== undefined ? "http" : "stdio");
+    if (type === "stdio") {
+      if (typeof server.command !== "string" || !server.command) throw fail(`${at}.command must be a non-empty string`);
+      if (server.args !== undefined && !isStrings(server.args)) throw fail(`${at}.args must be an array of strings`);
+      if (server.env !== undefined && !isStringMap(server.env)) throw fail(`${at}.env must map names to strings`);
+    } else if (type === "http" || type === "sse") {
+      let url: URL | undefined;
+      try { url = new URL(String(server.url)); } catch { /* reported below */ }
+      if (typeof server.url !== "string" || !url || !["http:", "https:"].includes(url.protocol)) {
+        throw fail(`${at}.url must be an http:// or https:// URL`);
+      }
+      if (!isLoopback(url.hostname)) throw fail(`${at}.url must point at this machine (localhost, 127.0.0.1 or [::1])`);
+      if (server.headers !== undefined && !isStringMap(server.headers)) throw fail(`${at}.headers must map names to strings`);
+    } else {
+      throw fail(`${at}.type must be "stdio", "http" or "sse"`);
+    }
+    servers[name] = (type === "stdio" ? server : { ...server, type }) as McpServerConfig;
+  }
+  return servers;
+}
+
+function isLoopback(hostname: string): boolean {
+  return hostname === "localhost" || hostname === "[::1]" || /^127\.\d+\.\d+\.\d+$/.test(hostname);
+}
+
+function checkPermissionMode(value: unknown, where: string, fail: Fail): void {
+  if (value !== undefined && !PERMISSION_MODES.includes(value as PermissionMode)) {
+    throw fail(`${where} must be one of ${PERMISSION_MODES.join(", ")}`);
+  }
+}
@@ -0,0 +1,174 @@
+/**
+ * User content for turn/start and turn/steer.
+ *
+ * Clients send either a plain string or an array of typed blocks:
+ *   { type: "text",  text }
+ *   { type: "image", data: <base64>, media_type: "image/png" | … }
+ *   { type: "file",  path }            (inside the thread's cwd)
+ *
+ * Blocks are validated up front (InvalidParams on bad input) and stored on
+ * the Turn as sent. The CLI's multimodal stream-json content is built at the
+ * same time, from the attached files as they were read for validation, so a
+ * file swapped or grown while the turn waits changes nothing.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { E, RpcException } from "./protocol.js";
+import { resolveWithin } from "./paths.js";
+import type { UserContentBlock, UserMessage } from "./types.js";
+
+// ─── Limits ───────────────────────────────────────────────────────────────────
+
+export const MAX_BLOCKS       = 20;
+export const MAX_IMAGE_BYTES  = 5 * 1024 * 1024;   // decoded size, per image
+export const MAX_FILE_BYTES   = 1 * 1024 * 1024;   // per attached file
+export const MAX_TOTAL_BYTES  = 20 * 1024 * 1024;  // all attachments in one message
+
+export const IMAGE_MEDIA_TYPES = ["image/png", "image/jpeg", "image/gif", "image/webp"];
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  ".png": "image/png", ".jpg": "image/jpeg", ".jpeg": "image/jpeg",
+  ".gif": "image/gif", ".webp": "image/webp",
+};
+
+// ─── Validation ───────────────────────────────────────────────────────────────
+
+function invalid(message: string): RpcException {
+  return new RpcException(E.InvalidParams, message);
+}
+
+/**
+ * Validate client content and return it as blocks, with the matching CLI
+ * content. `file` paths are resolved against `cwd` and must stay inside it.
+ */
+export function normalizeContent(raw: unknown, cwd: string): UserMessage {
+  if (typeof raw === "string") {
+    if (!raw) throw invalid("content must not be empty.");
+    return { blocks: [{ type: "text", text: raw }], claude: [{ type: "text", text: raw }] };
+  }
+  if (!Array.isArray(raw) || raw.length === 0) {
+    throw invalid("content must be a non-empty string or an array of content blocks.");
+  }
+  if (raw.length > MAX_BLOCKS) {
+    throw invalid(`content may contain at most ${MAX_BLOCKS} blocks.`);
+  }
+
+  let total = 0;
+  const claude: unknown[] = [];
+  const blocks = raw.map((b: unknown, i): UserContentBlock => {
+    const block = (b ?? {}) as Record<string, unknown>;
+    switch (block.type) {
+      case "text":
+        if (typeof block.text !== "string") throw invalid(`content[${i}].text must be a string.`);
+        claude.push({ type: "text", text: block.text });
+        return { type: "text", text: block.text };
+
+      case "image": {
+        if (typeof block.media_type !== "string" || !IMAGE_MEDIA_TYPES.includes(block.media_type)) {
+          throw invalid(`content[${i}].media_type must be one of: ${IMAGE_MEDIA_TYPES.join(", ")}.`);
+        }
+        if (typeof block.data !== "string" || !/^[A-Za-z0-9+/]+={0,2}$/.test(block.data)) {
+          throw invalid(`content[${i}].data must be base64-encoded image data.`);
+        }
+        const size = Buffer.byteLength(block.data, "base64");
+        if (size > MAX_IMAGE_BYTES) {
+          throw invalid(`content[${i}] image is ${size} bytes; the limit is ${MAX_IMAGE_BYTES}.`);
+        }
+        total += size;
+        claude.push({ type: "image", source: { type: "base64", media_type: block.media_type, data: block.data } });
+        return { type: "image", media_type: block.media_type, data: block.data };
+      }
+
+      case "file": {
+        if (typeof block.path !== "string" || !block.path) {
+          throw invalid(`content[${i}].path must be a non-empty string.`);
+        }
+        const abs = resolveWithin(cwd, block.path);
+        if (!abs) throw invalid(`content[${i}].path is outside the workspace: ${block.path}`);
+        const ext = path.extname(abs).toLowerCase();
+        const limit = IMAGE_EXTENSIONS[ext] ? MAX_IMAGE_BYTES : MAX_FILE_BYTES;
+        const data = readAttachment(abs, limit, `content[${i}]`, block.path);
+        if (!IMAGE_EXTENSIONS[ext] && ext !== ".pdf" && looksBinary(data)) {
+          throw invalid(`content[${i}] is a binary file; only text, image and PDF files can be attached.`);
+        }
+        total += data.length;
+        const rel = path.relative(fs.realpathSync(cwd), abs) || path.basename(abs);
+        claude.push(fileContent(rel, ext, data));
+        return { type: "file", path: rel, size: data.length };
+      }
+
+      default:
+        throw invalid(`content[${i}].type must be "text", "image" or "file".`);
+    }
+  });
+
+  if (total > MAX_TOTAL_BYTES) {
+    throw invalid(`Attachments total ${total} bytes; the limit is ${MAX_TOTAL_BYTES}.`);
+  }
+  return { blocks, claude };
+}
+
+/**
+ * Read an attached file in full, at most `limit` bytes. `abs` has its
+ * symlinks resolved already; O_NOFOLLOW refuses one swapped in since, and
+ * the limit holds even if the file grows while it is read.
+ */
+function readAttachment(abs: string, limit: number, where: string, shown: string): Buffer {
+  let fd: number;
+  try {
+    fd = fs.openSync(abs, fs.constants.O_RDONLY | fs.constants.O_NOFOLLOW);
+  } catch {
+    throw invalid(`${where}.path not found: ${shown}`);
+  }
+  try {
+    const stat = fs.fstatSync(fd);
+    if (!stat.isFile()) throw invalid(`${where}.path is not a file: ${shown}`);
+    if (stat.size > limit) throw invalid(`${where} file is ${stat.size} bytes; the limit is ${limit}.`);
+
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for (;;) {
+      const chunk = Buffer.alloc(64 * 1024);
+      const n = fs.readSync(fd, chunk, 0, chunk.length, null);
+      if (n === 0) break;
+      chunks.push(chunk.subarray(0, n));
+      size += n;
+      if (size > limit) throw invalid(`${where} file is over ${limit} bytes, the limit.`);
+    }
+    return Buffer.concat(chunks, size);
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+/** Heuristic: a NUL byte in the first 8 KiB means binary. */
+function looksBinary(data: Buffer): boolean {
+  return data.subarray(0, 8192).includes(0);
+}
+
+/** Plain-text rendering of the content (used for Turn.user_content and summaries). */
+export function contentText(blocks: UserContentBlock[]): string {
+  return blocks.map((b) => {
+    switch (b.type) {
+      case "text":  return b.text;
+      case "image": return "[image]";
+      case "file":  return `[file: ${b.path}]`;
+    }
+  }).join("\n\n");
+}
+
+// ─── Conversion to CLI input ──────────────────────────────────────────────────
+
+/** An attached file as Anthropic message content: images and PDFs as such, anything else as text. */
+function fileContent(rel: string, ext: string, data: Buffer): unknown {
+  const mediaType = IMAGE_EXTENSIONS[ext];
+  if (mediaType) {
+    return { type: "image", source: { type: "base64", media_type: mediaType, data: data.toString("base64") } };
+  }
+  if (ext === ".pdf") {
+    return { type: "document", source: { type: "base64", media_type: "application/pdf", data: data.toString("base64") } };
+  }
+  const text = data.toString("utf-8").replace(/\n$/, "");
+  return { type: "text", text: `<file path="${rel}">\n${text}\n</file>` };
+}
@@ -0,0 +1,128 @@
+/**
+ * Minimal line-based unified diff (Myers' O(ND) algorithm).
+ * Used to render file_change items; no external dependency needed.
+ */
+
+type Op = { kind: " " | "-" | "+"; line: string };
+
+const CONTEXT = 3;
+
+function splitLines(text: string): string[] {
+  if (text === "") return [];
+  const lines = text.split("\n");
+  if (lines[lines.length - 1] === "") lines.pop();   // trailing newline
+  return lines;
+}
+
+/**
+ * Past this many inserted + deleted lines (after the common prefix and suffix)
+ * no diff is made: the saved frontiers grow with the square of the distance.
+ */
+const MAX_EDIT_DISTANCE = 2000;
+
+/** Shortest edit script between two line arrays, or null when they differ too much. */
+function myers(a: string[], b: string[]): Op[] | null {
+  // The common prefix and suffix need no search
+  let pre = 0;
+  while (pre < a.length && pre < b.length && a[pre] === b[pre]) pre++;
+  let suf = 0;
+  while (suf < a.length - pre && suf < b.length - pre && a[a.length - 1 - suf] === b[b.length - 1 - suf]) suf++;
+
+  const middle = search(a.slice(pre, a.length - suf), b.slice(pre, b.length - suf));
+  if (!middle) return null;
+  const same = (lines: string[]): Op[] => lines.map(line => ({ kind: " ", line }));
+  return [...same(a.slice(0, pre)), ...middle, ...same(a.slice(a.length - suf))];
+}
+
+function search(a: string[], b: string[]): Op[] | null {
+  const n = a.length, m = b.length;
+  // Pure insertions / deletions (new and deleted files) are trivial at any size
+  if (n === 0 || m === 0) {
+    return [...a.map(line => ({ kind: "-", line }) as Op), ...b.map(line => ({ kind: "+", line }) as Op)];
+  }
+
+  const max = Math.min(n + m, MAX_EDIT_DISTANCE);
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);   // v[offset + k]: furthest x on diagonal k
+  // trace[d] holds v for diagonals -d-1 … d+1 as it was before step d
+  const trace: Int32Array[] = [];
+  const at = (vd: Int32Array, d: number, k: number) => vd[k + d + 1];
+
+  let done = false;
+  for (let d = 0; d <= max && !done; d++) {
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+    for (let k = -d; k <= d; k += 2) {
+      let x = (k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]))
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) { x++; y++; }
+      v[offset + k] = x;
+      if (x >= n && y >= m) { done = true; break; }
+    }
+  }
+  if (!done) return null;
+
+  // Backtrack through the saved frontiers
+  const ops: Op[] = [];
+  let x = n, y = m;
+  for (let d = trace.length - 1; d > 0; d--) {
+    const vd = trace[d];
+    const k = x - y;
+    const prevK = (k === -d || (k !== d && at(vd, d, k - 1) < at(vd, d, k + 1))) ? k + 1 : k - 1;
+    const prevX = at(vd, d, prevK);
+    const prevY = prevX - prevK;
+    while (x > prevX && y > prevY) { ops.push({ kind: " ", line: a[--x] }); y--; }
+    if (x === prevX) ops.push({ kind: "+", line: b[--y] });
+    else             ops.push({ kind: "-", line: a[--x] });
+  }
+  while (x > 0 && y > 0) { ops.push({ kind: " ", line: a[--x] }); y--; }
+  return ops.reverse();
+}
+
+/**
+ * Unified diff of `before` → `after` (either may be null for create/delete).
+ * Returns "" when the contents are identical, and undefined when they differ
+ * in more than MAX_EDIT_DISTANCE lines (e.g. a large file rewritten).
+ */
+export function unifiedDiff(path: string, before: string | null, after: string | null): string | undefined {
+  const a = splitLines(before ?? "");
+  const b = splitLines(after ?? "");
+  const ops = myers(a, b);
+  if (!ops) return undefined;
+  if (!ops.some(o => o.kind !== " ")) return "";
+
+  const out = [
+    `--- ${before === null ? "/dev/null" : "a/" + path}`,
+    `+++ ${after === null ? "/dev/null" : "b/" + path}`,
+  ];
+
+  // Group changes into hunks with CONTEXT lines around them
+  let i = 0;
+  while (i < ops.length) {
+    if (ops[i].kind === " ") { i++; continue; }
+    const start = Math.max(0, i - CONTEXT);
+    let end = i;
+    // Extend while the next change is within 2*CONTEXT unchanged lines
+    for (let j = i; j < ops.length; j++) {
+      if (ops[j].kind !== " ") end = j;
+      else if (j - end > 2 * CONTEXT) break;
+    }
+    const stop = Math.min(ops.length, end + CONTEXT + 1);
+
+    // Line numbers at the hunk start
+    let oldLine = 1, newLine = 1;
+    for (let j = 0; j < start; j++) {
+      if (ops[j].kind !== "+") oldLine++;
+      if (ops[j].kind !== "-") newLine++;
+    }
+    const hunk = ops.slice(start, stop);
+    const oldCount = hunk.filter(o => o.kind !== "+").length;
+    const newCount = hunk.filter(o => o.kind !== "-").length;
+    out.push(`@@ -${oldCount ? oldLine : oldLine - 1},${oldCount} +${newCount ? newLine : newLine - 1},${newCount} @@`);
+    for (const o of hunk) out.push(o.kind + o.line);
+
+    i = stop;
+  }
+  return out.join("\n") + "\n";
+}
@@ -0,0 +1,400 @@
+/**
+ * Read-only access to a thread's workspace for the fs/* methods.
+ *
+ * Every path is taken relative to the thread's cwd (absolute paths are
+ * accepted too, e.g. from tool_call items) and must stay inside it after
+ * resolving `..` and symlinks; anything else is PathNotAllowed. Paths in
+ * results are relative to the cwd, with "/" separators.
+ *
+ * In git work trees, files git ignores (.gitignore, .git/info/exclude, the
+ * global excludes file) are off limits: listings and searches leave them
+ * out, and naming one (or anything below an ignored directory) is
+ * PathNotAllowed, since that is where .env files and credentials live.
+ * `.git` itself is always hidden. Outside git, nothing is ignored.
+ */
+
+import { execFile, spawn } from "child_process";
+import * as fs from "fs";
+import * as path from "path";
+import * as readline from "readline";
+import { promisify } from "util";
+import { E, RpcException, checkCancelled } from "./protocol.js";
+import { realpathOrSelf, resolveWithin } from "./paths.js";
+
+const execFileP = promisify(execFile);
+
+const MAX_LIST_ENTRIES     = 2000;
+const DEFAULT_READ_BYTES   = 256 * 1024;
+const MAX_READ_BYTES       = 4 * 1024 * 1024;
+/** Same heuristic as git: a NUL byte in the first 8000 bytes means binary. */
+const BINARY_SNIFF_BYTES   = 8000;
+const MAX_SEARCH_FILES     = 20_000;
+/** A content search is killed after this long; matches so far are returned. */
+const SEARCH_TIMEOUT_MS    = 10_000;
+const DEFAULT_SEARCH_RESULTS = 200;
+const MAX_SEARCH_RESULTS   = 2000;
+const MAX_MATCH_TEXT       = 300;
+
+export type EntryType = "file" | "dir" | "symlink" | "other";
+
+export interface FsEntry {
+  name: string;
+  path: string;
+  type: EntryType;
+  size?: number;
+  mtime: number;
+}
+
+export interface SearchOptions {
+  query: string;
+  /** Directory to search below (default: the cwd). */
+  path?: string;
+  /** "content" (default) searches file contents, "name" their paths. */
+  kind?: "content" | "name";
+  /** The query is a POSIX extended regex (`git grep -E`); content search only. */
+  regex?: boolean;
+  case_sensitive?: boolean;
+  /** Only files matching this glob ("*.ts", "src/*.tsx", "test/**"). */
+  glob?: string;
+  max_results?: number;
+}
+
+export interface SearchMatch {
+  path: string;
+  line?: number;
+  column?: number;
+  text?: string;
+}
+
+// ─── Paths ────────────────────────────────────────────────────────────────────
+
+/** `p` inside `cwd` as a real absolute path, or PathNotAllowed. */
+export function workspacePath(cwd: string, p: string | undefined): string {
+  if (p !== undefined && typeof p !== "string") {
+    throw new RpcException(E.InvalidParams, "path must be a string.");
+  }
+  const resolved = resolveWithin(cwd, p || ".");
+  // .git is the repository's own state, not part of the workspace
+  if (!resolved || relative(cwd, resolved).split("/").includes(".git")) {
+    throw new RpcException(E.PathNotAllowed, `${p} is outside the thread's workspace.`, { path: p, cwd });
+  }
+  return resolved;
+}
+
+/** Like workspacePath, but also PathNotAllowed for files git ignores. */
+async function visiblePath(cwd: string, p: string | undefined): Promise<string> {
+  const abs = workspacePath(cwd, p);
+  const shown = relative(cwd, abs);
+  if (shown !== "." && (await ignoredPaths(cwd, [shown])).has(shown)) {
+    throw new RpcException(E.PathNotAllowed, `${p} is ignored by git.`, { path: p, cwd });
+  }
+  return abs;
+}
+
+/** `abs` relative to `cwd` with "/" separators ("." for the cwd itself). */
+function relative(cwd: string, abs: string): string {
+  return path.relative(realpathOrSelf(cwd), abs).split(path.sep).join("/") || ".";
+}
+
+function entryType(stat: fs.Stats): EntryType {
+  return stat.isSymbolicLink() ? "symlink" : stat.isDirectory() ? "dir" : stat.isFile() ? "file" : "other";
+}
+
+async function lstat(abs: string, shown: string): Promise<fs.Stats> {
+  try {
+    return await fs.promises.lstat(abs);
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+      throw new RpcException(E.FileNotFound, `No such file or directory: ${shown}`, { path: shown });
+    }
+    throw err;
+  }
+}
+
+// ─── git ignore rules ─────────────────────────────────────────────────────────
+
+/** The subset of `paths` (relative to `cwd`) that git ignores; empty outside git. */
+async function ignoredPaths(cwd: string, paths: string[]): Promise<Set<string>> {
+  if (paths.length === 0) return new Set();
+  try {
+    const run = execFileP("git", ["check-ignore", "-z", "--stdin"], { cwd, maxBuffer: 16 * 1024 * 1024 });
+    run.child.stdin?.end(paths.join("\0"));
+    const { stdout } = await run;
+    return new Set(stdout.split("\0").filter(Boolean));
+  } catch (err) {
+    // Status 1: nothing is ignored. Anything else: not a git work tree.
+    const out = (err as { stdout?: string }).stdout;
+    return new Set((out ?? "").split("\0").filter(Boolean));
+  }
+}
+
+/** Files git does not ignore below `dir` (tracked and untracked), or null outside git. */
+async function gitFiles(cwd: string, dir: string, signal?: AbortSignal): Promise<string[] | null> {
+  try {
+    const { stdout } = await execFileP(
+      "git", ["ls-files", "-z", "--cached", "--others", "--exclude-standard", "--", relative(cwd, dir)],
+      { cwd, maxBuffer: 64 * 1024 * 1024, signal },
+    );
+    return [...new Set(stdout.split("\0").filter(Boolean))];
+  } catch {
+    checkCancelled(signal);
+    return null;
+  }
+}
+
+/** Every file below `dir` (relative to `cwd`), skipping .git. */
+async function walkFiles(cwd: string, dir: string, limit: number, signal?: AbortSignal): Promise<string[]> {
+  const files: string[] = [];
+  const walk = async (d: string) => {
+    checkCancelled(signal);
+    let entries: fs.Dirent[];
+    try { entries = await fs.promises.readdir(d, { withFileTypes: true }); } catch { return; }
+    for (const entry of entries) {
+      if (files.length >= limit) return;
+      if (entry.name === ".git") continue;
+      const full = path.join(d, entry.name);
+      if (entry.isDirectory()) await walk(full);
+      else if (entry.isFile()) files.push(relative(cwd, full));
+    }
+  };
+  await walk(dir);
+  return files;
+}
+
+// ─── fs/list ──────────────────────────────────────────────────────────────────
+
+export async function listDir(
+  cwd: string,
+  p: string | undefined,
+): Promise<{ path: string; entries: FsEntry[]; truncated: boolean }> {
+  const dir = await visiblePath(cwd, p);
+  const shown = relative(cwd, dir);
+  if (!(await lstat(dir, shown)).isDirectory()) {
+    throw new RpcException(E.InvalidParams, `Not a directory: ${shown}`);
+  }
+
+  const names = (await fs.promises.readdir(dir)).filter(n => n !== ".git").sort((a, b) => a.localeCompare(b));
+  const rel = (name: string) => shown === "." ? name : `${shown}/${name}`;
+  const ignored = await ignoredPaths(cwd, names.map(rel));
+  const visible = names.filter(n => !ignored.has(rel(n)));
+
+  const entries: FsEntry[] = [];
+  for (const name of visible.slice(0, MAX_LIST_ENTRIES)) {
+    const stat = await fs.promises.lstat(path.join(dir, name)).catch(() => undefined);
+    if (!stat) continue;   // removed meanwhile
+    const type = entryType(stat);
+    entries.push({
+      name,
+      path:    rel(name),
+      type,
+      size:    type === "file" ? stat.size : undefined,
+      mtime:   stat.mtimeMs,
+    });
+  }
+  // Directories first, then by name
+  entries.sort((a, b) => Number(b.type === "dir") - Number(a.type === "dir") || a.name.localeCompare(b.name));
+  return { path: shown, entries, truncated: visible.length > MAX_LIST_ENTRIES };
+}
+
+// ─── fs/stat ──────────────────────────────────────────────────────────────────
+
+export async function statPath(cwd: string, p: string | undefined): Promise<FsEntry & { binary?: boolean }> {
+  const abs = await visiblePath(cwd, p);
+  const shown = relative(cwd, abs);
+  // workspacePath resolved symlinks, so this is what the link points at
+  const stat = await lstat(abs, shown);
+  const type = entryType(stat);
+  return {
+    name:    path.basename(abs),
+    path:    shown,
+    type,
+    size:    type === "file" ? stat.size : undefined,
+    mtime:   stat.mtimeMs,
+    binary:  type === "file" ? isBinary(await readBytes(abs, 0, BINARY_SNIFF_BYTES)) : undefined,
+  };
+}
+
+// ─── fs/read ──────────────────────────────────────────────────────────────────
+
+/**
+ * Up to `length` bytes from `offset`. Text comes back as UTF-8 (a character
+ * cut by the end of the range is left for the next read); binary files as
+ * base64.
+ */
+export async function readRange(cwd: string, p: string | undefined, offset = 0, length = DEFAULT_READ_BYTES) {
+  for (const [name, value] of [["offset", offset], ["length", length]] as const) {
+    if (!Number.isInteger(value) || value < 0) {
+      throw new RpcException(E.InvalidParams, `${name} must be a non-negative integer.`);
+    }
+  }
+  const abs = await visiblePath(cwd, p);
+  const shown = relative(cwd, abs);
+  const stat = await lstat(abs, shown);
+  if (!stat.isFile()) throw new RpcException(E.InvalidParams, `Not a file: ${shown}`);
+
+  const binary = isBinary(await readBytes(abs, 0, BINARY_SNIFF_BYTES));
+  let bytes = await readBytes(abs, offset, Math.min(length, MAX_READ_BYTES));
+  const eof = offset + bytes.length >= stat.size;
+  if (!binary && !eof) bytes = bytes.subarray(0, utf8Boundary(bytes));
+
+  return {
+    path:     shown,
+    size:     stat.size,
+    mtime:    stat.mtimeMs,
+    offset,
+    length:   bytes.length,
+    eof,
+    binary,
+    encoding: binary ? "base64" : "utf-8",
+    content:  bytes.toString(binary ? "base64" : "utf-8"),
+  };
+}
+
+async function readBytes(file: string, offset: number, length: number): Promise<Buffer> {
+  const handle = await fs.promises.open(file, "r");
+  try {
+    const buf = Buffer.alloc(length);
+    const { bytesRead } = await handle.read(buf, 0, length, offset);
+    return buf.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+}
+
+function isBinary(head: Buffer): boolean {
+  return head.subarray(0, BINARY_SNIFF_BYTES).includes(0);
+}
+
+/** Length of `buf` without a trailing, incomplete UTF-8 sequence. */
+function utf8Boundary(buf: Buffer): number {
+  for (let i = buf.length - 1, back = 1; i >= 0 && back <= 4; i--, back++) {
+    const byte = buf[i];
+    if ((byte & 0xc0) === 0x80) continue;           // continuation byte
+    const need = byte >= 0xf0 ? 4 : byte >= 0xe0 ? 3 : byte >= 0xc0 ? 2 : 1;
+    return need > back ? i : buf.length;
+  }
+  return buf.length;
+}
+
+// ─── fs/search ────────────────────────────────────────────────────────────────
+
+/**
+ * Content search runs `git grep` (with --no-index outside git) rather than a
+ * JavaScript RegExp: a client's pattern must not be able to block the event
+ * loop, and a child process can be killed when it takes too long.
+ */
+export async function search(cwd: string, opts: SearchOptions, signal?: AbortSignal) {
+  if (typeof opts.query !== "string" || !opts.query) {
+    throw new RpcException(E.InvalidParams, "query must be a non-empty string.");
+  }
+  const kind = opts.kind ?? "content";
+  if (kind !== "content" && kind !== "name") {
+    throw new RpcException(E.InvalidParams, `kind must be "content" or "name".`);
+  }
+  if (opts.regex && kind === "name") {
+    throw new RpcException(E.InvalidParams, `regex applies to content search only; match names with glob.`);
+  }
+  if (opts.glob !== undefined && (typeof opts.glob !== "string" || !opts.glob
+      || opts.glob.startsWith("/") || opts.glob.startsWith(":") || opts.glob.split("/").includes(".."))) {
+    throw new RpcException(E.InvalidParams, "glob must be a relative pattern like \"*.ts\" or \"src/*.tsx\".");
+  }
+  const maxResults = Math.min(Math.max(1, opts.max_results ?? DEFAULT_SEARCH_RESULTS), MAX_SEARCH_RESULTS);
+  const dir = await visiblePath(cwd, opts.path);
+
+  return kind === "name"
+    ? searchNames(cwd, dir, opts, maxResults, signal)
+    : grep(cwd, dir, opts, maxResults, signal);
+}
+
+async function searchNames(cwd: string, dir: string, opts: SearchOptions, maxResults: number, signal?: AbortSignal) {
+  const candidates = await gitFiles(cwd, dir, signal)
+    || await walkFiles(cwd, dir, MAX_SEARCH_FILES, signal);
+  const glob = opts.glob ? globToRegExp(opts.glob) : undefined;
+  const fold = (text: string) => opts.case_sensitive ? text : text.toLowerCase();
+  const query = fold(opts.query);
+
+  const matches: SearchMatch[] = [];
+  for (const file of candidates.slice(0, MAX_SEARCH_FILES)) {
+    if (glob && !glob.test(file)) continue;
+    if (!fold(file).includes(query)) continue;
+    if (matches.length >= maxResults) return { matches, truncated: true };
+    matches.push({ path: file });
+  }
+  return { matches, truncated: candidates.length > MAX_SEARCH_FILES };
+}
+
+async function grep(cwd: string, dir: string, opts: SearchOptions, maxResults: number, signal?: AbortSignal) {
+  checkCancelled(signal);
+  const root = realpathOrSelf(cwd);
+  const inRepo = await execFileP("git", ["rev-parse", "--is-inside-work-tree"], { cwd: root })
+    .then(({ stdout }) => stdout.trim() === "true", () => false);
+
+  // Pathspecs OR together, so a glob with a directory part is checked against `dir` afterwards
+  const rel = relative(cwd, dir);
+  const under = rel === "." ? "" : rel + "/";
+  const pathspec = !opts.glob ? rel
+    : opts.glob.includes("/") ? `:(glob)${opts.glob}`
+    : `:(glob)${under}**/${opts.glob}`;
+  const args = [
+    "-c", "core.quotepath=false", "grep", "-n", "--column", "-z", "-I", "--no-color",
+    opts.case_sensitive ? "--no-ignore-case" : "-i",
+    opts.regex ? "-E" : "-F",
+    ...(!inRepo ? ["--no-index"] : ["--untracked"]),
+    "-e", opts.query, "--", pathspec,
+  ];
+
+  const env = { ...process.env };
+  delete env.GIT_LITERAL_PATHSPECS;
+  const child = spawn("git", args, { cwd: root, env, stdio: ["ignore", "pipe", "pipe"] });
+  const matches: SearchMatch[] = [];
+  let truncated = false;
+  let timedOut = false;
+  let stderr = "";
+
+  const stop = () => { child.kill("SIGKILL"); };
+  const timer = setTimeout(() => { timedOut = truncated = true; stop(); }, SEARCH_TIMEOUT_MS);
+  signal?.addEventListener("abort", stop, { once: true });
+  child.stderr.on("data", (d: Buffer) => { stderr += d; });
+
+  readline.createInterface({ input: child.stdout }).on("line", (line) => {
+    if (truncated) return;
+    const [file, lineNo, column, ...text] = line.split("\0");
+    if (under && !file.startsWith(under)) return;
+    if (matches.length >= maxResults) { truncated = true; stop(); return; }
+    matches.push({ path: file, line: Number(lineNo), column: Number(column), text: text.join("\0").slice(0, MAX_MATCH_TEXT) });
+  });
+
+  const code = await new Promise<number | null>((resolve, reject) => {
+    child.once("error", reject);
+    child.once("close", resolve);
+  }).finally(() => {
+    clearTimeout(timer);
+    signal?.removeEventListener("abort", stop);
+  });
+  checkCancelled(signal);
+  // 1: no matches; 128: a bad pattern or pathspec
+  if (code !== 0 && code !== 1 && !truncated) {
+    const message = stderr.trim().split("\n")[0].replace(/^fatal: /, "") || `git grep exited with ${code}`;
+    throw new RpcException(E.InvalidParams, `Search failed: ${message}`);
+  }
+  return { matches, truncated, ...(timedOut ? { timed_out: true } : {}) };
+}
+
+/** `*` and `?` within a path segment, `**` across them. Patterns without "/" match the file name at any depth. */
+function globToRegExp(glob: string): RegExp {
+  let re = "";
+  for (let i = 0; i < glob.length; i++) {
+    const c = glob[i];
+    if (c === "*" && glob[i + 1] === "*") {
+      i++;
+      if (glob[i + 1] === "/") { i++; re += "(?:.*/)?"; } else re += ".*";
+    } else if (c === "*") {
+      re += "[^/]*";
+    } else if (c === "?") {
+      re += "[^/]";
+    } else {
+      re += c.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(glob.includes("/") ? `^${re}$` : `(?:^|/)${re}$`);
+}
@@ -0,0 +1,420 @@
+/**
+ * git for the git/* methods: status, diffs, staging, commits and branches of
+ * the repository containing a thread's cwd, parsed into structured results.
+ *
+ * Commands run at the repository root and every path in params and results
+ * is relative to it. Pathspecs are literal (GIT_LITERAL_PATHSPECS), so
+ * clients cannot pass globs or magic like ":(exclude)". A failing command is
+ * GitFailed with git's own message; nothing here retries or resolves
+ * conflicts. Reads take the request's abort signal and kill git when the
+ * client cancels; writes do not, so they either happen or fail on their own.
+ */
+
+import { execFile } from "child_process";
+import * as path from "path";
+import { promisify } from "util";
+import { E, RpcException, checkCancelled } from "./protocol.js";
+
+const execFileP = promisify(execFile);
+
+/** Commit hooks run too, so allow them some time. */
+const GIT_TIMEOUT_MS = 60_000;
+const MAX_DIFF_LINES = 20_000;
+
+/** What happened to a path, from git's one-letter status codes. */
+export type Change = "modified" | "type_changed" | "added" | "deleted" | "renamed" | "copied" | "unmerged" | "untracked";
+
+const CHANGES: Record<string, Change> = {
+  M: "modified", T: "type_changed", A: "added", D: "deleted", R: "renamed", C: "copied", U: "unmerged",
+};
+
+export interface StatusEntry {
+  path: string;
+  /** Where a renamed or copied path came from. */
+  orig_path?: string;
+  /** Change between HEAD and the index (null: nothing staged). */
+  staged: Change | null;
+  /** Change between the index and the working tree (null: nothing unstaged). */
+  unstaged: Change | null;
+  conflicted?: boolean;
+}
+
+export interface GitStatus {
+  root: string;
+  /** Checked-out branch; null when HEAD is detached. */
+  branch: string | null;
+  /** HEAD commit; null before the first commit. */
+  head: string | null;
+  upstream?: string;
+  ahead?: number;
+  behind?: number;
+  files: StatusEntry[];
+  clean: boolean;
+}
+
+export interface DiffLine {
+  type: "context" | "add" | "delete";
+  text: string;
+  old_line?: number;
+  new_line?: number;
+  /** The line has no trailing newline ("\ No newline at end of file"). */
+  no_newline?: boolean;
+}
+
+export interface DiffHunk {
+  old_start: number;
+  old_lines: number;
+  new_start: number;
+  new_lines: number;
+  /** Text after the second "@@", usually the enclosing function. */
+  section: string;
+  lines: DiffLine[];
+}
+
+export interface FileDiff {
+  path: string;
+  old_path?: string;
+  status: "added" | "deleted" | "modified" | "renamed" | "copied";
+  binary: boolean;
+  additions: number;
+  deletions: number;
+  hunks: DiffHunk[];
+  /** Lines were left out to keep the result small. */
+  truncated?: boolean;
+}
+
+export interface Branch {
+  name: string;
+  remote: boolean;
+  current: boolean;
+  commit: string;
+  subject: string;
+  committed_at: number;
+  upstream?: string;
+  ahead?: number;
+  behind?: number;
+  /** The upstream branch no longer exists. */
+  gone?: boolean;
+}
+
+export interface CommitInfo {
+  commit: string;
+  short_commit: string;
+  branch: string | null;
+  subject: string;
+  files_changed: number;
+  insertions: number;
+  deletions: number;
+}
+
+// ─── Running git ──────────────────────────────────────────────────────────────
+
+async function git(root: string, args: string[], signal?: AbortSignal): Promise<string> {
+  try {
+    const { stdout } = await execFileP("git", ["-c", "core.quotepath=false", ...args], {
+      cwd: root,
+      env: { ...process.env, GIT_LITERAL_PATHSPECS: "1", GIT_TERMINAL_PROMPT: "0" },
+      maxBuffer: 64 * 1024 * 1024,
+      timeout: GIT_TIMEOUT_MS,
+      signal,
+    });
+    return stdout;
+  } catch (err) {
+    checkCancelled(signal);
+    const e = err as NodeJS.ErrnoException & { stdout?: string; stderr?: string; code?: number | string; killed?: boolean };
+    if (e.code === "ENOENT") throw new RpcException(E.GitFailed, "git is not installed.");
+    const output = (e.stderr || e.stdout || "").trim();
+    const message = e.killed ? `git ${args[0]} timed out.` : output.split("\n")[0] || `git ${args[0]} failed.`;
+    throw new RpcException(E.GitFailed, message, { command: `git ${args.join(" ")}`, exit_code: e.code, output });
+  }
+}
+
+/** The top-level directory of the repository containing `cwd`, or GitFailed. */
+export async function requireRepo(cwd: string): Promise<string> {
+  try {
+    const { stdout } = await execFileP("git", ["rev-parse", "--show-toplevel"], { cwd });
+    if (stdout.trim()) return stdout.trim();
+  } catch { /* not a repository, or no git */ }
+  throw new RpcException(E.GitFailed, `Not a git repository: ${cwd}`, { cwd });
+}
+
+/**
+ * Client-supplied paths, relative to `root` (or absolute inside it). They
+ * are checked lexically, not through symlinks: a tracked symlink is staged as
+ * the link, and git itself refuses paths beyond one.
+ */
+export function repoPaths(root: string, value: unknown, field = "paths"): string[] {
+  if (!Array.isArray(value) || value.some(p => typeof p !== "string" || !p)) {
+    throw new RpcException(E.InvalidParams, `${field} must be an array of non-empty paths.`);
+  }
+  return (value as string[]).map(p => {
+    const rel = path.relative(root, path.resolve(root, p)).split(path.sep).join("/");
+    if (rel.startsWith("..") || path.isAbsolute(rel) || rel.split("/").includes(".git")) {
+      throw new RpcException(E.PathNotAllowed, `${p} is outside the repository.`, { path: p, root });
+    }
+    return rel || ".";
+  });
+}
+
+async function hasHead(root: string): Promise<boolean> {
+  return git(root, ["rev-parse", "--verify", "-q", "HEAD"]).then(() => true, () => false);
+}
+
+async function currentBranch(root: string): Promise<string | null> {
+  return git(root, ["symbolic-ref", "-q", "--short", "HEAD"]).then(out => out.trim() || null, () => null);
+}
+
+// ─── Status ───────────────────────────────────────────────────────────────────
+
+export async function repoStatus(root: string, signal?: AbortSignal): Promise<GitStatus> {
+  const out = await git(root, ["status", "--porcelain=v2", "--branch", "-z"], signal);
+  const result: GitStatus = { root, branch: null, head: null, files: [], clean: true };
+  const records = out.split("\0");
+
+  for (let i = 0; i < records.length; i++) {
+    const rec = records[i];
+    if (rec.startsWith("# ")) {
+      const [key, ...rest] = rec.slice(2).split(" ");
+      const value = rest.join(" ");
+      if (key === "branch.oid" && value !== "(initial)") result.head = value;
+      else if (key === "branch.head" && value !== "(detached)") result.branch = value;
+      else if (key === "branch.upstream") result.upstream = value;
+      else if (key === "branch.ab") {
+        const [ahead, behind] = value.split(" ");
+        result.ahead = Math.abs(Number(ahead));
+        result.behind = Math.abs(Number(behind));
+      }
+      continue;
+    }
+
+    // Ordinary (1), renamed/copied (2, followed by the original path), unmerged (u), untracked (?)
+    const kind = rec[0];
+    if (kind === "?") {
+      result.files.push({ path: rec.slice(2), staged: null, unstaged: "untracked" });
+    } else if (kind === "1" || kind === "2" || kind === "u") {
+      const skip = kind === "1" ? 8 : kind === "2" ? 9 : 10;
+      const fields = rec.split(" ");
+      const xy = fields[1];
+      const entry: StatusEntry = {
+        path:     fields.slice(skip).join(" "),
+        staged:   CHANGES[xy[0]] ?? null,
+        unstaged: CHANGES[xy[1]] ?? null,
+      };
+      if (kind === "2") entry.orig_path = records[++i];
+      if (kind === "u") entry.conflicted = true;
+      result.files.push(entry);
+    }
+  }
+  result.clean = result.files.length === 0;
+  return result;
+}
+
+// ─── Diff ─────────────────────────────────────────────────────────────────────
+
+const DIFF_FLAGS = ["--no-color", "--no-ext-diff", "--no-textconv", "-M", "--src-prefix=a/", "--dst-prefix=b/"];
+
+/** Unstaged changes (index → working tree), or staged ones (HEAD → index). */
+export async function diffWorktree(root: string, staged: boolean, paths?: string[], signal?: AbortSignal) {
+  const args = ["diff", ...DIFF_FLAGS, ...(staged ? ["--cached"] : []), "--", ...(paths ?? [])];
+  return parseDiff(await git(root, args, signal));
+}
+
+/** Changes between two commits, e.g. a turn's checkpoints. */
+export async function diffCommits(root: string, from: string, to: string, paths?: string[], signal?: AbortSignal) {
+  return parseDiff(await git(root, ["diff", ...DIFF_FLAGS, from, to, "--", ...(paths ?? [])], signal));
+}
+
+const HUNK = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@ ?(.*)$/;
+
+/** Parse `git diff` output. Past `maxLines` stored lines, further lines are only counted. */
+export function parseDiff(out: string, maxLines = MAX_DIFF_LINES): { files: FileDiff[]; truncated: boolean } {
+  const files: FileDiff[] = [];
+  let file: FileDiff | undefined;
+  let hunk: DiffHunk | undefined;
+  let last: DiffLine | undefined;
+  let oldLine = 0, newLine = 0, oldLeft = 0, newLeft = 0;
+  let stored = 0;
+
+  const store = (line: DiffLine) => {
+    last = undefined;
+    if (stored >= maxLines) { file!.truncated = true; return; }
+    hunk!.lines.push(last = line);
+    stored++;
+  };
+
+  for (const line of out.split("\n")) {
+    if (hunk && (oldLeft > 0 || newLeft > 0)) {
+      const text = line.slice(1);
+      if (line[0] === "+") {
+        file!.additions++;
+        store({ type: "add", text, new_line: newLine++ });
+        newLeft--;
+      } else if (line[0] === "-") {
+        file!.deletions++;
+        store({ type: "delete", text, old_line: oldLine++ });
+        oldLeft--;
+      } else if (line[0] === "\\") {
+        if (last) last.no_newline = true;
+      } else {
+        store({ type: "context", text, old_line: oldLine++, new_line: newLine++ });
+        oldLeft--;
+        newLeft--;
+      }
+      continue;
+    }
+
+    if (line.startsWith("\\")) {
+      if (last) last.no_newline = true;
+    } else if (line.startsWith("diff --git ")) {
+      file = { path: headerPath(line.slice(11)), status: "modified", binary: false, additions: 0, deletions: 0, hunks: [] };
+      files.push(file);
+      hunk = last = undefined;
+    } else if (!file) {
+      continue;
+    } else if (HUNK.test(line)) {
+      const m = HUNK.exec(line)!;
+      hunk = {
+        old_start: Number(m[1]),
+        old_lines: m[2] === undefined ? 1 : Number(m[2]),
+        new_start: Number(m[3]),
+        new_lines: m[4] === undefined ? 1 : Number(m[4]),
+        section:   m[5],
+        lines:     [],
+      };
+      file.hunks.push(hunk);
+      [oldLine, newLine, oldLeft, newLeft] = [hunk.old_start, hunk.new_start, hunk.old_lines, hunk.new_lines];
+      last = undefined;
+    } else if (line.startsWith("new file mode")) {
+      file.status = "added";
+    } else if (line.startsWith("deleted file mode")) {
+      file.status = "deleted";
+    } else if (line.startsWith("rename from ") || line.startsWith("copy from ")) {
+      file.status = line.startsWith("rename") ? "renamed" : "copied";
+      file.old_path = unquote(line.slice(line.indexOf(" from ") + 6));
+    } else if (line.startsWith("rename to ") || line.startsWith("copy to ")) {
+      file.path = unquote(line.slice(line.indexOf(" to ") + 4));
+    } else if (line.startsWith("Binary files ") || line === "GIT binary patch") {
+      file.binary = true;
+    }
+  }
+  return { files, truncated: files.some(f => f.truncated) };
+}
+
+/** The new path from "a/P b/P" (renames are taken from "rename to" instead). */
+function headerPath(s: string): string {
+  const quoted = /^(?:"(?:[^"\\]|\\.)*"|\S+) ("(?:[^"\\]|\\.)*")$/.exec(s);
+  if (quoted) return unquote(quoted[1]).slice(2);
+  return s.slice((s.length - 1) / 2 + 3);
+}
+
+const ESCAPES: Record<string, string> = { a: "\x07", b: "\b", t: "\t", n: "\n", v: "\v", f: "\f", r: "\r" };
+
+/** Undo git's C-style quoting of unusual paths (with core.quotepath off, only control characters are octal). */
+function unquote(s: string): string {
+  if (!(s.length >= 2 && s.startsWith("\"") && s.endsWith("\""))) return s;
+  return s.slice(1, -1).replace(/\\([0-7]{3}|.)/g, (_, e: string) =>
+    e.length === 3 ? String.fromCharCode(parseInt(e, 8)) : ESCAPES[e] ?? e);
+}
+
+// ─── Stage / commit ───────────────────────────────────────────────────────────
+
+/** Stage `paths` (additions, edits and deletions), or every change when null. */
+export async function stagePaths(root: string, paths: string[] | null): Promise<void> {
+  await git(root, ["add", "-A", "--", ...(paths ?? ["."])]);
+}
+
+/** Take `paths` (or everything) out of the index again, keeping the working tree. */
+export async function unstagePaths(root: string, paths: string[] | null): Promise<void> {
+  if (await hasHead(root)) {
+    await git(root, ["reset", "-q", "HEAD", "--", ...(paths ?? ["."])]);
+  } else {
+    // Before the first commit there is no HEAD to reset to
+    await git(root, ["rm", "-r", "-q", "--cached", "--ignore-unmatch", "--", ...(paths ?? ["."])]);
+  }
+}
+
+/** Commit the index (with `all`, tracked files' changes too, like `git commit -a`). */
+export async function commitIndex(root: string, message: string, all: boolean): Promise<CommitInfo> {
+  await git(root, ["commit", "-q", ...(all ? ["-a"] : []), "-m", message]).catch((err: RpcException) => {
+    // git explains an empty commit with a whole status listing
+    const { output } = (err.data ?? {}) as { output?: string };
+    if (/nothing (added )?to commit|no changes added to commit/.test(output ?? "")) {
+      throw new RpcException(E.GitFailed, "Nothing to commit.", err.data);
+    }
+    throw err;
+  });
+  const [sha, short, subject] = (await git(root, ["log", "-1", "--format=%H%x00%h%x00%s"])).trimEnd().split("\0");
+
+  let files = 0, insertions = 0, deletions = 0;
+  for (const line of (await git(root, ["diff-tree", "--root", "--no-commit-id", "-r", "--numstat", "HEAD"])).split("\n")) {
+    const [added, removed] = line.split("\t");
+    if (!line) continue;
+    files++;
+    insertions += Number(added) || 0;   // "-" for binary files
+    deletions += Number(removed) || 0;
+  }
+  return {
+    commit: sha, short_commit: short, branch: await currentBranch(root), subject,
+    files_changed: files, insertions, deletions,
+  };
+}
+
+// ─── Branches ─────────────────────────────────────────────────────────────────
+
+const BRANCH_FORMAT = [
+  "%(refname)", "%(refname:short)", "%(objectname)", "%(committerdate:unix)",
+  "%(upstream:short)", "%(upstream:track,nobracket)", "%(contents:subject)",
+].join("%00");
+
+/** Local branches, most recently committed first (remote-tracking ones too with `remote`). */
+export async function listBranches(
+  root: string,
+  remote: boolean,
+  signal?: AbortSignal,
+): Promise<{ current: string | null; branches: Branch[] }> {
+  const refs = remote ? ["refs/heads", "refs/remotes"] : ["refs/heads"];
+  const out = await git(root, ["for-each-ref", "--sort=-committerdate", `--format=${BRANCH_FORMAT}`, ...refs], signal);
+  const current = await currentBranch(root);
+
+  const list: Branch[] = [];
+  for (const line of out.split("\n")) {
+    if (!line) continue;
+    const [ref, name, sha, date, upstream, track, subject] = line.split("\0");
+    if (ref.endsWith("/HEAD")) continue;   // refs/remotes/origin/HEAD points at another entry
+    const isRemote = ref.startsWith("refs/remotes/");
+    const branch: Branch = {
+      name,
+      remote:       isRemote,
+      current:      !isRemote && name === current,
+      commit:       sha,
+      subject,
+      committed_at: Number(date) * 1000,
+    };
+    if (upstream) {
+      branch.upstream = upstream;
+      branch.ahead = Number(/ahead (\d+)/.exec(track)?.[1] ?? 0);
+      branch.behind = Number(/behind (\d+)/.exec(track)?.[1] ?? 0);
+      if (track === "gone") branch.gone = true;
+    }
+    list.push(branch);
+  }
+  return { current, branches: list };
+}
+
+/** A client-supplied branch or commit name; InvalidParams for anything git could take as an option. */
+export function checkRefName(value: unknown, field: string): asserts value is string {
+  if (typeof value !== "string" || !value || value.startsWith("-")) {
+    throw new RpcException(E.InvalidParams, `${field} must be a branch or commit name.`);
+  }
+}
+
+/**
+ * Switch to `branch`, creating it (from `startPoint`, default HEAD) with
+ * `create`. Like `git switch`, this refuses to overwrite local changes.
+ */
+export async function switchBranch(root: string, branch: string, create: boolean, startPoint?: string): Promise<void> {
+  checkRefName(branch, "branch");
+  if (startPoint !== undefined) checkRefName(startPoint, "start_point");
+  const args = create ? ["switch", "-c", branch, ...(startPoint ? [startPoint] : [])] : ["switch", branch];
+  await git(root, args);
+}
@@ -12,15 +12,30 @@
  *   claude-app-server start --port 4000        # custom port
  *   claude-app-server --transport ws           # WebSocket (legacy flags)
  *   claude-app-server --transport ws --no-tls  # plain ws (no TLS)
+ *   claude-app-server start --cert c.pem --key k.pem  # bring your own certificate
+ *   claude-app-server devices                  # list paired devices
+ *   claude-app-server devices revoke <id>      # revoke a device
+ *   claude-app-server cert rotate              # replace the stored TLS certificate
  */
 
 import { ClaudeAppServer } from "./server.js";
 import { startStdio, startWebSocket } from "./transport.js";
+import { JsonFileThreadStore, MemoryThreadStore } from "./store.js";
+import { configFile, devicesFile, expandHome, threadsDir, tlsDir } from "./paths.js";
+import { NUMBER_RANGES, describeRange, inRange, loadConfig, type Profile, type ServerConfig } from "./config.js";
+import type { PermissionMode } from "./types.js";
+import { DeviceAuth, DeviceRegistry } from "./auth.js";
+import {
+  createIdentity, fingerprintHex, loadIdentity, storedIdentity, uncoveredHosts, type TlsIdentity,
+} from "./tls.js";
+import type { Budgets } from "./usage.js";
+import type { ModelInfo } from "./models.js";
+import { CliRunner, type AgentRunner } from "./runner.js";
+import { ReplayRunner, RecordingRunner } from "./replay.js";
 import { execSync } from "child_process";
-import { randomBytes } from "crypto";
-import { networkInterfaces } from "os";
+import { hostname, networkInterfaces } from "os";
 import { realpathSync } from "fs";
-import { join } from "path";
+import { join, resolve } from "path";
 import { readFileSync } from "fs";
 import qr from "qrcode-terminal";
 
@@ -47,6 +62,12 @@ USAGE
 
 SUBCOMMANDS
   start     Start WebSocket server on port 3284, show QR code to connect
+  devices   List paired devices
+  devices revoke <id>
+            Revoke a paired device (an unambiguous id prefix is enough)
+  cert      Show the stored TLS certificate's fingerprint
+  cert rotate
+            Replace the stored TLS certificate (pinned clients must re-pair)
 
 OPTIONS
   -h, --help        Show this help message
@@ -54,6 +75,41 @@ OPTIONS
   --transport ws     Use WebSocket transport (implies stdio otherwise)
   --port <number>   WebSocket port (default: 3284)
   --no-tls          Use plain WebSocket (no TLS)
+  --cert <file>     TLS certificate (PEM) to use instead of the stored self-signed one
+  --key <file>      Private key (PEM) for --cert
+  --data-dir <dir>  Where threads are persisted
+                    (default: ~/.config/claude-app-server/threads)
+  --no-persist      Keep threads in memory only
+  --workspace <dir>
+                    Only let threads run inside <dir> (repeat for several roots)
+  --allow-client-mcp-commands
+                    Let clients define stdio MCP servers (commands the CLI runs without approval)
+  --append-system-prompt <text>
+                    Instructions added to every turn's system prompt (clients cannot remove them)
+  --config <file>   Config file to use instead of ~/.config/claude-app-server/config.json
+                    (./.claude-app-server.json still applies on top)
+  --approval-timeout <seconds>
+                    Deny unanswered tool approvals after this long (default: 300)
+  --replay-buffer <n>
+                    Notifications kept per thread for thread/replay (default: 1000)
+  --thread-budget <usd>
+                    Default spending limit per thread
+  --connection-budget <usd>
+                    Spending limit per client connection
+  --daily-budget <usd>
+                    Spending limit per calendar day, across all threads
+  --max-concurrent <n>
+                    Claude processes allowed to run at once (default: 8)
+  --max-per-connection <n>
+                    Running turns allowed per client connection (default: unlimited)
+  --turn-timeout <seconds>
+                    Stop turns running longer than this (default: 3600, 0 = off)
+  --idle-timeout <seconds>
+                    Stop turns with no output from claude for this long (default: 600, 0 = off)
+  --kill-grace <seconds>
+                    Wait this long after SIGTERM before SIGKILL (default: 5)
+  --record <dir>    Save every turn's stream-json transcript as a fixture in <dir>
+  --replay <dir>    Answer turns from recorded fixtures instead of running claude
   --debug           Enable debug logging
 
 EXAMPLES
@@ -69,38 +125,37 @@ Then log in: claude auth
 
 // ─── Network helpers ──────────────────────────────────────────────────────────
 
-function getLanIp(): string | null {
-  const nets = networkInterfaces();
-  for (const ifaces of Object.values(nets)) {
+function getLanIps(): string[] {
+  const ips: string[] = [];
+  for (const ifaces of Object.values(networkInterfaces())) {
     if (!ifaces) continue;
     for (const iface of ifaces) {
       if (iface.family === "IPv4" && !iface.internal) {
-        return iface.address;
+        ips.push(iface.address);
       }
     }
   }
-  return null;
+  return ips;
 }
 
-// ─── Pair key generation ─────────────────────────────────────────────────────
+function getLanIp(): string | null {
+  return getLanIps()[0] ?? null;
+}
 
-function generatePairKey(): string {
-  const chars = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789";
-  const bytes = randomBytes(6);
-  let key = "";
-  for (let i = 0; i < 6; i++) {
-    key += chars[bytes[i] % chars.length];
-  }
-  return key;
+/** Names clients may use to reach this machine (certificate SANs). */
+function localHosts(): string[] {
+  return [hostname(), ...getLanIps()];
 }
 
 // ─── QR display ───────────────────────────────────────────────────────────────
 
-function printStartBanner(port: number, pairKey: string, tls: boolean): void {
+function printStartBanner(port: number, pairKey: string, tls?: TlsIdentity): void {
   const lan = getLanIp();
   const proto = tls ? "wss" : "ws";
-  const lanUrl = lan ? `${proto}://${lan}:${port}?key=${pairKey}` : null;
-  const localUrl = `${proto}://localhost:${port}?key=${pairKey}`;
+  // The certificate fingerprint lets clients pin our self-signed cert
+  const query = `?key=${pairKey}` + (tls ? `&fp=${fingerprintHex(tls)}` : "");
+  const lanUrl = lan ? `${proto}://${lan}:${port}${query}` : null;
+  const localUrl = `${proto}://localhost:${port}${query}`;
 
   process.stderr.write("\n");
   process.stderr.write(`  claude-app-server  ·  WebSocket${tls ? " (TLS)" : ""}\n`);
@@ -110,6 +165,9 @@ function printStartBanner(port: number, pairKey: string, tls: boolean): void {
     process.stderr.write(`  Network:  ${proto}://${lan}:${port}\n`);
   }
   process.stderr.write(`  Pair Key: ${pairKey}\n`);
+  if (tls) {
+    process.stderr.write(`  SHA-256:  ${tls.fingerprint}\n`);
+  }
   process.stderr.write("\n");
 
   const connectUrl = lanUrl ?? localUrl;
@@ -121,7 +179,7 @@ function printStartBanner(port: number, pairKey: string, tls: boolean): void {
       .map((l) => "  " + l)
       .join("\n");
     process.stderr.write(indented + "\n");
-    process.stderr.write(`  Scan to connect\n\n`);
+    process.stderr.write(`  Scan to pair this device\n\n`);
   });
 }
 
@@ -130,20 +188,70 @@ function printStartBanner(port: number, pairKey: string, tls: boolean): void {
 interface ParsedArgs {
   subcommand: "start" | null;
   transport: "stdio" | "ws";
-  port: number;
+  /** Flags left out here fall back to the config file, then to defaults. */
+  port?: number;
   showQr: boolean;
   debug: boolean;
-  tls: boolean;
+  tls?: boolean;
+  certFile?: string;
+  keyFile?: string;
+  dataDir?: string;
+  persist: boolean;
+  configFile?: string;
+  workspaces: string[];
+  allowClientMcpCommands?: boolean;
+  appendSystemPrompt?: string;
+  approvalTimeoutMs?: number;
+  replayBufferSize?: number;
+  budgets: Budgets;
+  maxConcurrentTurns?: number;
+  maxTurnsPerConnection?: number;
+  turnTimeoutMs?: number;
+  idleTimeoutMs?: number;
+  killGraceMs?: number;
+  recordDir?: string;
+  replayDir?: string;
 }
 
 function parseArgs(argv: string[]): ParsedArgs {
   const args = argv.slice(2);
   let subcommand: "start" | null = null;
   let transport: "stdio" | "ws" = "stdio";
-  let port = 3284;
+  let port: number | undefined;
   let showQr = false;
   let debug = false;
-  let tls = true;
+  let tls: boolean | undefined;
+  let certFile: string | undefined;
+  let keyFile: string | undefined;
+  let dataDir: string | undefined;
+  let persist = true;
+  let configFile: string | undefined;
+  const workspaces: string[] = [];
+  let allowClientMcpCommands: boolean | undefined;
+  let appendSystemPrompt: string | undefined;
+  let approvalTimeoutMs: number | undefined;
+  let replayBufferSize: number | undefined;
+  const budgets: Budgets = {};
+  let maxConcurrentTurns: number | undefined;
+  let maxTurnsPerConnection: number | undefined;
+  let turnTimeoutMs: number | undefined;
+  let idleTimeoutMs: number | undefined;
+  let killGraceMs: number | undefined;
+  let recordDir: string | undefined;
+  let replayDir: string | undefined;
+
+  /** A flag's value, checked like the same setting in the config file. */
+  const number = (flag: string, text: string, setting: keyof typeof NUMBER_RANGES): number => {
+    const value = text.trim() === "" ? NaN : Number(text);
+    if (!inRange(value, NUMBER_RANGES[setting])) {
+      process.stderr.write(
+        `[claude-app-server] ERROR: ${flag} must be ${describeRange(NUMBER_RANGES[setting])}, not "${text}".\n` +
+        "Run claude-app-server --help for usage.\n",
+      );
+      process.exit(2);
+    }
+    return value;
+  };
 
   // Check for `start` subcommand as first token
   if (args[0] === "start") {
@@ -158,15 +266,119 @@ function parseArgs(argv: string[]): ParsedArgs {
       const t = args[++i];
       if (t === "ws" || t === "websocket") transport = "ws";
     } else if (args[i] === "--port" && args[i + 1]) {
-      port = parseInt(args[++i], 10);
+      port = number(args[i], args[++i], "port");
     } else if (args[i] === "--debug") {
       debug = true;
     } else if (args[i] === "--no-tls") {
       tls = false;
+    } else if (args[i] === "--cert" && args[i + 1]) {
+      certFile = args[++i];
+    } else if (args[i] === "--key" && args[i + 1]) {
+      keyFile = args[++i];
+    } else if (args[i] === "--data-dir" && args[i + 1]) {
+      dataDir = args[++i];
+    } else if (args[i] === "--no-persist") {
+      persist = false;
+    } else if (args[i] === "--config" && args[i + 1]) {
+      configFile = args[++i];
+    } else if (args[i] === "--workspace" && args[i + 1]) {
+      workspaces.push(resolve(expandHome(args[++i])));
+    } else if (args[i] === "--allow-client-mcp-commands") {
+      allowClientMcpCommands = true;
+    } else if (args[i] === "--append-system-prompt" && args[i + 1]) {
+      appendSystemPrompt = args[++i];
+    } else if (args[i] === "--approval-timeout" && args[i + 1]) {
+      approvalTimeoutMs = number(args[i], args[++i], "approval_timeout") * 1000;
+    } else if (args[i] === "--replay-buffer" && args[i + 1]) {
+      replayBufferSize = number(args[i], args[++i], "replay_buffer");
+    } else if (args[i] === "--thread-budget" && args[i + 1]) {
+      budgets.thread_usd = number(args[i], args[++i], "budget");
+    } else if (args[i] === "--connection-budget" && args[i + 1]) {
+      budgets.connection_usd = number(args[i], args[++i], "budget");
+    } else if (args[i] === "--daily-budget" && args[i + 1]) {
+      budgets.daily_usd = number(args[i], args[++i], "budget");
+    } else if (args[i] === "--max-concurrent" && args[i + 1]) {
+      maxConcurrentTurns = number(args[i], args[++i], "max_concurrent");
+    } else if (args[i] === "--max-per-connection" && args[i + 1]) {
+      maxTurnsPerConnection = number(args[i], args[++i], "max_per_connection");
+    } else if (args[i] === "--turn-timeout" && args[i + 1]) {
+      turnTimeoutMs = number(args[i], args[++i], "turn_timeout") * 1000;
+    } else if (args[i] === "--idle-timeout" && args[i + 1]) {
+      idleTimeoutMs = number(args[i], args[++i], "idle_timeout") * 1000;
+    } else if (args[i] === "--kill-grace" && args[i + 1]) {
+      killGraceMs = number(args[i], args[++i], "kill_grace") * 1000;
+    } else if (args[i] === "--record" && args[i + 1]) {
+      recordDir = args[++i];
+    } else if (args[i] === "--replay" && args[i + 1]) {
+      replayDir = args[++i];
     }
   }
 
-  return { subcommand, transport, port, showQr, debug, tls };
+  return {
+    subcommand, transport, port, showQr, debug, tls, certFile, keyFile,
+    dataDir, persist, configFile, workspaces, allowClientMcpCommands, appendSystemPrompt, approvalTimeoutMs,
+    replayBufferSize, budgets, maxConcurrentTurns, maxTurnsPerConnection, turnTimeoutMs, idleTimeoutMs, killGraceMs,
+    recordDir, replayDir,
+  };
+}
+
+// ─── Config file ──────────────────────────────────────────────────────────────
+
+interface Settings extends ParsedArgs {
+  port: number;
+  tls: boolean;
+  dataDir: string;
+  model?: string;
+  fallbackModel?: string;
+  models?: ModelInfo[];
+  permissionMode?: PermissionMode;
+  profiles: Record<string, Profile>;
+  defaultProfile?: string;
+}
+
+/** Fill in whatever the flags left open from the config file, then defaults. Exits on errors. */
+function withConfig(args: ParsedArgs): Settings {
+  let config: ServerConfig;
+  try {
+    const loaded = loadConfig(args.configFile ?? configFile(), process.cwd());
+    if (args.configFile && !loaded.files.includes(args.configFile)) {
+      throw new Error(`${args.configFile}: no such file`);
+    }
+    config = loaded.config;
+    if (args.debug && loaded.files.length > 0) {
+      process.stderr.write(`[debug] config: ${loaded.files.join(", ")}\n`);
+    }
+  } catch (err) {
+    process.stderr.write(`[claude-app-server] ERROR: ${err instanceof Error ? err.message : err}\n`);
+    process.exit(1);
+  }
+  const seconds = (s?: number) => s === undefined ? undefined : s * 1000;
+
+  return {
+    ...args,
+    port:                   args.port ?? config.port ?? 3284,
+    tls:                    args.tls ?? config.tls ?? true,
+    certFile:               args.certFile ?? config.cert,
+    keyFile:                args.keyFile ?? config.key,
+    dataDir:                args.dataDir ?? config.data_dir ?? threadsDir(),
+    workspaces:             args.workspaces.length > 0 ? args.workspaces : config.workspaces ?? [],
+    allowClientMcpCommands: args.allowClientMcpCommands ?? config.allow_client_mcp_commands,
+    appendSystemPrompt:     args.appendSystemPrompt ?? config.append_system_prompt,
+    approvalTimeoutMs:      args.approvalTimeoutMs ?? seconds(config.approval_timeout),
+    replayBufferSize:       args.replayBufferSize ?? config.replay_buffer,
+    budgets:                { ...config.budgets, ...args.budgets },
+    maxConcurrentTurns:     args.maxConcurrentTurns ?? config.max_concurrent,
+    maxTurnsPerConnection:  args.maxTurnsPerConnection ?? config.max_per_connection,
+    turnTimeoutMs:          args.turnTimeoutMs ?? seconds(config.turn_timeout),
+    idleTimeoutMs:          args.idleTimeoutMs ?? seconds(config.idle_timeout),
+    killGraceMs:            args.killGraceMs ?? seconds(config.kill_grace),
+    model:                  config.model,
+    fallbackModel:          config.fallback_model,
+    models:                 config.models,
+    permissionMode:         config.permission_mode,
+    profiles:               config.profiles ?? {},
+    defaultProfile:         config.default_profile,
+  };
 }
 
 // ─── Claude CLI check ─────────────────────────────────────────────────────────
@@ -187,6 +399,90 @@ function checkClaude(): string {
   }
 }
 
+// ─── devices subcommand ───────────────────────────────────────────────────────
+
+/** `devices` / `devices revoke <id>`. Returns the exit code. */
+function devicesCommand(args: string[]): number {
+  const registry = new DeviceRegistry(devicesFile());
+  const devices = registry.list();
+
+  if (args.length === 0 || args[0] === "list") {
+    if (devices.length === 0) {
+      process.stdout.write("No paired devices.\n");
+      return 0;
+    }
+    const time = (ts?: number) => ts ? new Date(ts).toLocaleString() : "never";
+    for (const d of devices) {
+      process.stdout.write(`${d.device_id}  ${d.name}\n`);
+      process.stdout.write(`    paired ${time(d.created_at)}, last seen ${time(d.last_seen_at)}\n`);
+    }
+    return 0;
+  }
+
+  if (args[0] === "revoke" && args[1]) {
+    const matches = devices.filter(d => d.device_id.startsWith(args[1]));
+    if (matches.length !== 1) {
+      process.stderr.write(matches.length === 0
+        ? `No device matches "${args[1]}".\n`
+        : `"${args[1]}" matches ${matches.length} devices; use more of the id.\n`);
+      return 1;
+    }
+    registry.revoke(matches[0].device_id);
+    process.stdout.write(`Revoked ${matches[0].name} (${matches[0].device_id}).\n`);
+    return 0;
+  }
+
+  process.stderr.write("Usage: claude-app-server devices [revoke <id>]\n");
+  return 2;
+}
+
+// ─── TLS ──────────────────────────────────────────────────────────────────────
+
+/** --cert/--key if given, else the stored self-signed certificate. Exits on errors. */
+function tlsIdentity(certFile?: string, keyFile?: string): TlsIdentity {
+  if (!!certFile !== !!keyFile) {
+    process.stderr.write("[claude-app-server] ERROR: --cert and --key must be used together.\n");
+    process.exit(1);
+  }
+  try {
+    if (certFile && keyFile) return loadIdentity(certFile, keyFile);
+
+    const log = (msg: string) => process.stderr.write(`[claude-app-server] ${msg}\n`);
+    const identity = storedIdentity(tlsDir(), localHosts(), log);
+    const missing = uncoveredHosts(identity, localHosts());
+    if (missing.length > 0) {
+      log(`TLS certificate does not cover ${missing.join(", ")}; run \`claude-app-server cert rotate\` if clients verify hostnames`);
+    }
+    return identity;
+  } catch (err) {
+    process.stderr.write(`[claude-app-server] ERROR: cannot load TLS certificate: ${err instanceof Error ? err.message : err}\n`);
+    process.exit(1);
+  }
+}
+
+/** `cert` / `cert rotate`. Returns the exit code. */
+function certCommand(args: string[]): number {
+  const print = (identity: TlsIdentity) => {
+    process.stdout.write(`Certificate: ${identity.certFile}\n`);
+    process.stdout.write(`SHA-256:     ${identity.fingerprint}\n`);
+    process.stdout.write(`Valid until: ${identity.validTo.toLocaleString()}\n`);
+    process.stdout.write(`Names:       ${identity.altNames.join(", ")}\n`);
+  };
+
+  if (args.length === 0 || args[0] === "show") {
+    print(storedIdentity(tlsDir(), localHosts(), (msg) => process.stderr.write(msg + "\n")));
+    return 0;
+  }
+  if (args[0] === "rotate") {
+    print(createIdentity(tlsDir(), localHosts()));
+    process.stdout.write("Restart the server and re-pair clients that pinned the old certificate.\n");
+    return 0;
+  }
+
+  process.stderr.write("Usage: claude-app-server cert [rotate]\n");
+  return 2;
+}
+
 // ─── Entry ────────────────────────────────────────────────────────────────────
 
 function main() {
@@ -199,18 +495,59 @@ function main() {
     process.stdout.write(getVersion() + "\n");
     process.exit(0);
   }
+  if (args[0] === "devices") {
+    process.exit(devicesCommand(args.slice(1)));
+  }
+  if (args[0] === "cert") {
+    process.exit(certCommand(args.slice(1)));
+  }
 
-  const claudePath = checkClaude();
-  const { transport, port, showQr, debug, tls } = parseArgs(process.argv);
-  const server = new ClaudeAppServer(claudePath, debug);
-
-  if (transport === "ws") {
-    const pairKey = generatePairKey();
+  const {
+    transport, port, showQr, debug, tls: useTls, certFile, keyFile,
+    dataDir, persist, approvalTimeoutMs, replayBufferSize, budgets,
+    maxConcurrentTurns, maxTurnsPerConnection, turnTimeoutMs, idleTimeoutMs, killGraceMs,
+    recordDir, replayDir, model, fallbackModel, models, permissionMode, profiles, defaultProfile, workspaces,
+    allowClientMcpCommands, appendSystemPrompt,
+  } = withConfig(parseArgs(process.argv));
+  // Replaying needs no claude CLI at all
+  const claudePath = replayDir ? "claude" : checkClaude();
+  const log = (...a: unknown[]) => { if (debug) process.stderr.write("[debug] " + a.join(" ") + "\n"); };
+  let runner: AgentRunner = replayDir ? new ReplayRunner(replayDir, log) : new CliRunner(claudePath, log);
+  if (recordDir) runner = new RecordingRunner(runner, recordDir, log);
+  const store = persist ? new JsonFileThreadStore(dataDir) : new MemoryThreadStore();
+  const tls = transport === "ws" && useTls ? tlsIdentity(certFile, keyFile) : undefined;
+
+  // WebSocket clients pair once with the pair key, then use a device token
+  const showPairKey = (key: string) => {
+    if (showQr) printStartBanner(port, key, tls);
+    else process.stderr.write(`[claude-app-server] pair key: ${key}\n`);
+  };
+  const auth = transport === "ws" ? new DeviceAuth(devicesFile(), { onPairKey: showPairKey, log }) : undefined;
+
+  const server = new ClaudeAppServer(claudePath, {
+    debug, store, approvalTimeoutMs, replayBufferSize, budgets,
+    maxConcurrentTurns, maxTurnsPerConnection, turnTimeoutMs, idleTimeoutMs, killGraceMs, runner, auth,
+    model, fallbackModel, models, permissionMode, profiles, defaultProfile, workspaces, appendSystemPrompt,
+    allowClientMcpCommands,
+  });
 
-    if (showQr) {
-      printStartBanner(port, pairKey, tls);
+  // Don't leave claude processes running after the server is gone
+  for (const signal of ["SIGINT", "SIGTERM"] as const) {
+    process.once(signal, () => {
+      server.shutdown().finally(() => process.exit(signal === "SIGINT" ? 130 : 143));
+    });
+  }
+  process.on("exit", () => server.killChildren());
+
+  if (auth) {
+    if (workspaces.length === 0) {
+      process.stderr.write(
+        "[claude-app-server] warning: no workspace roots configured; paired devices can run the agent in any directory " +
+        "(use --workspace <dir> or \"workspaces\" in the config file)\n",
+      );
     }
-    startWebSocket(server, port, { pairKey, debug, tls });
+    showPairKey(auth.pairKey);
+    startWebSocket(server, port, { auth, debug, tls });
   } else {
     startStdio(server);
   }
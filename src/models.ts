@@ -0,0 +1,32 @@
+/**
+ * The model catalog: the models clients may pick, with short aliases.
+ *
+ * `models` in the config file replaces the built-in list as a whole. Every
+ * model a client or the config names is looked up here (by id or alias,
+ * ignoring case) and passed to the CLI by id; anything else is refused before
+ * a turn is spawned.
+ */
+
+export interface ModelInfo {
+  id: string;
+  name?: string;
+  aliases?: string[];
+}
+
+export const DEFAULT_MODELS: ModelInfo[] = [
+  { id: "claude-opus-4-6",   name: "Claude Opus 4.6",   aliases: ["opus"] },
+  { id: "claude-sonnet-4-6", name: "Claude Sonnet 4.6", aliases: ["sonnet"] },
+  { id: "claude-haiku-4-5",  name: "Claude Haiku 4.5",  aliases: ["haiku"] },
+];
+
+/** The catalog entry `name` refers to, by id or alias. */
+export function findModel(catalog: ModelInfo[], name: string): ModelInfo | undefined {
+  const key = name.trim().toLowerCase();
+  return catalog.find(m => m.id.toLowerCase() === key)
+    ?? catalog.find(m => m.aliases?.some(a => a.toLowerCase() === key));
+}
+
+/** Every name `findModel` accepts, for error messages. */
+export function modelNames(catalog: ModelInfo[]): string[] {
+  return catalog.flatMap(m => [m.id, ...(m.aliases ?? [])]);
+}
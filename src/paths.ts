@@ -0,0 +1,80 @@
+/**
+ * On-disk locations used by the server, and path helpers.
+ *
+ * Everything lives under a single config directory:
+ *   $CLAUDE_APP_SERVER_HOME                    if set
+ *   $XDG_CONFIG_HOME/claude-app-server         if set
+ *   ~/.config/claude-app-server                otherwise
+ */
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+export function configDir(): string {
+  if (process.env.CLAUDE_APP_SERVER_HOME) return process.env.CLAUDE_APP_SERVER_HOME;
+  const base = process.env.XDG_CONFIG_HOME || path.join(os.homedir(), ".config");
+  return path.join(base, "claude-app-server");
+}
+
+/** The user-level config file (see config.ts). */
+export function configFile(): string {
+  return path.join(configDir(), "config.json");
+}
+
+/** Default directory for persisted threads (one append-only log per thread). */
+export function threadsDir(): string {
+  return path.join(configDir(), "threads");
+}
+
+/** Paired WebSocket devices (see auth.ts). */
+export function devicesFile(): string {
+  return path.join(configDir(), "devices.json");
+}
+
+/** The stored self-signed TLS certificate and key (see tls.ts). */
+export function tlsDir(): string {
+  return path.join(configDir(), "tls");
+}
+
+/** The claude CLI's user-level directory (commands, agents, skills). */
+export function claudeUserDir(): string {
+  return process.env.CLAUDE_CONFIG_DIR || path.join(os.homedir(), ".claude");
+}
+
+/** Expand a leading `~` to the user's home directory (spawn does not). */
+export function expandHome(p: string): string {
+  if (p === "~") return os.homedir();
+  if (p.startsWith("~/")) return os.homedir() + p.slice(1);
+  return p;
+}
+
+/**
+ * Resolve `p` (absolute, or relative to `root`) and return it only if it stays
+ * inside `root` after resolving `..` and symlinks. Returns null otherwise.
+ * Paths that do not exist yet are checked against their nearest existing parent.
+ */
+export function resolveWithin(root: string, p: string): string | null {
+  const realRoot = realpathOrSelf(root);
+  const abs = path.resolve(root, p);
+
+  // Walk up to the nearest existing ancestor so symlinks there are honoured
+  let existing = abs;
+  const rest: string[] = [];
+  while (!fs.existsSync(existing)) {
+    const parent = path.dirname(existing);
+    if (parent === existing) break;
+    rest.unshift(path.basename(existing));
+    existing = parent;
+  }
+  const real = path.join(realpathOrSelf(existing), ...rest);
+
+  const rel = path.relative(realRoot, real);
+  if (rel === ".." || rel.startsWith(".." + path.sep) || path.isAbsolute(rel)) return null;
+  return real;
+}
+
+/** `p` with symlinks resolved, or just made absolute if it does not exist. */
+export function realpathOrSelf(p: string): string {
+  try { return fs.realpathSync(p); } catch { return path.resolve(p); }
+}
@@ -56,6 +56,20 @@ export const E = {
   ThreadNotFound: -32001,
   TurnBusy:       -32003,
   NoActiveTurn:   -32004,
+  ApprovalNotFound: -32005,
+  ReplayUnavailable: -32006,
+  CheckpointUnavailable: -32007,
+  CheckpointConflict:    -32008,
+  BudgetExceeded:        -32009,
+  Unauthorized:          -32010,
+  RateLimited:           -32011,
+  WorkspaceNotAllowed:   -32012,
+  PathNotAllowed:        -32013,
+  FileNotFound:          -32014,
+  PermissionDenied:      -32015,
+  GitFailed:             -32016,
+  // Request aborted via $/cancelRequest (same code as LSP)
+  RequestCancelled: -32800,
 } as const;
 
 export class RpcException extends Error {
@@ -69,6 +83,11 @@ export class RpcException extends Error {
   }
 }
 
+/** Throw RequestCancelled once the client has sent $/cancelRequest for the request. */
+export function checkCancelled(signal?: AbortSignal): void {
+  if (signal?.aborted) throw new RpcException(E.RequestCancelled, "Request cancelled.");
+}
+
 // ─── Helpers ─────────────────────────────────────────────────────────────────
 
 export function ok(id: RpcId, result: unknown): RpcSuccessResponse {
@@ -91,15 +110,66 @@ export function isNotification(msg: RpcIncoming): msg is RpcNotification {
   return !("id" in msg);
 }
 
-/** Try to parse a single line as a JSON-RPC message. Returns null on error. */
-export function parseLine(line: string): RpcIncoming | null {
+/** Result of parsing one NDJSON line / WebSocket frame. */
+export type ParsedInput =
+  | { type: "message"; msg: RpcIncoming }
+  /** Batch entries are either valid messages or the InvalidRequest reply for that entry. */
+  | { type: "batch"; entries: (RpcIncoming | RpcErrorResponse)[] }
+  /** Nothing to dispatch; send this error back as-is. */
+  | { type: "invalid"; response: RpcErrorResponse };
+
+function isValidId(id: unknown): id is RpcId {
+  return id === null || typeof id === "string" || typeof id === "number";
+}
+
+/** Validate one decoded value as a request/notification, or build its InvalidRequest reply. */
+function validateMessage(value: unknown): RpcIncoming | RpcErrorResponse {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return rpcErr(null, E.InvalidRequest, "Invalid Request: expected an object");
+  }
+  const m = value as Record<string, unknown>;
+  const id = "id" in m && isValidId(m.id) ? m.id : null;
+  if (m.jsonrpc !== "2.0") {
+    return rpcErr(id, E.InvalidRequest, 'Invalid Request: jsonrpc must be "2.0"');
+  }
+  if (typeof m.method !== "string") {
+    return rpcErr(id, E.InvalidRequest, "Invalid Request: method must be a string");
+  }
+  if ("id" in m && !isValidId(m.id)) {
+    return rpcErr(null, E.InvalidRequest, "Invalid Request: id must be a string, number or null");
+  }
+  if (m.params !== undefined && (typeof m.params !== "object" || m.params === null)) {
+    return rpcErr(id, E.InvalidRequest, "Invalid Request: params must be an object or array");
+  }
+  return m as unknown as RpcIncoming;
+}
+
+export function isErrorResponse(v: RpcIncoming | RpcErrorResponse): v is RpcErrorResponse {
+  return "error" in v;
+}
+
+/**
+ * Parse a single line as a JSON-RPC message or batch. Returns null for blank
+ * lines; malformed input yields the ParseError / InvalidRequest reply.
+ */
+export function parseLine(line: string): ParsedInput | null {
   const trimmed = line.trim();
   if (!trimmed) return null;
+
+  let parsed: unknown;
   try {
-    const parsed = JSON.parse(trimmed) as RpcMessage;
-    if (parsed.jsonrpc !== "2.0" || !("method" in parsed)) return null;
-    return parsed as RpcIncoming;
+    parsed = JSON.parse(trimmed);
   } catch {
-    return null;
+    return { type: "invalid", response: rpcErr(null, E.ParseError, "Parse error") };
   }
+
+  if (Array.isArray(parsed)) {
+    if (parsed.length === 0) {
+      return { type: "invalid", response: rpcErr(null, E.InvalidRequest, "Invalid Request: empty batch") };
+    }
+    return { type: "batch", entries: parsed.map(validateMessage) };
+  }
+
+  const msg = validateMessage(parsed);
+  return isErrorResponse(msg) ? { type: "invalid", response: msg } : { type: "message", msg };
 }
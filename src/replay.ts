@@ -0,0 +1,283 @@
+/**
+ * Record / replay runners for offline testing.
+ *
+ * A fixture is one turn's transcript, stored as NDJSON (`*.jsonl`):
+ *
+ *   { "kind": "meta",     "version": 1, "recorded_at": …, "cwd": … }
+ *   { "kind": "stdin",    "message": { "type": "user", "message": … } }
+ *   { "kind": "stdout",   "event": { "type": "system", … } }
+ *   …
+ *
+ * RecordingRunner wraps a real runner and writes every stdin message and
+ * stdout line of each turn to `<dir>/<timestamp>-<turn_id>.jsonl`.
+ *
+ * ReplayRunner plays fixtures back without spawning anything. The fixture is
+ * picked by the text of the turn's first message (repeated prompts use
+ * matching fixtures in file-name order, then wrap around). Events up to the
+ * first recorded stdin are emitted at start; the events after the n-th
+ * recorded stdin are emitted when the n-th message arrives. Hand-written
+ * fixtures may also contain:
+ *
+ *   { "kind": "file",     "path": "notes.txt", "content": "…" }   write a file in cwd
+ *   { "kind": "approval", "tool_name": "Bash", "input": {…}, "tool_use_id": "…" }
+ *       ask the approval bridge like the CLI would and wait for the answer
+ *       (the decision does not change the rest of the transcript)
+ */
+
+import { EventEmitter } from "events";
+import * as fs from "fs";
+import * as path from "path";
+import * as readline from "readline";
+import { PassThrough } from "stream";
+import { MCP_SERVER_NAME, PROMPT_TOOL_NAME } from "./approvals.js";
+import type { AgentProcess, AgentRunner, RunSpec } from "./runner.js";
+
+export const FIXTURE_VERSION = 1;
+
+export type FixtureStep =
+  | { kind: "meta"; version: number; recorded_at?: number; cwd?: string; model?: string }
+  | { kind: "stdin"; message: unknown }
+  | { kind: "stdout"; event: unknown }
+  | { kind: "file"; path: string; content: string }
+  | { kind: "approval"; tool_name: string; input: unknown; tool_use_id?: string };
+
+/** Text of a stream-json user message, used to match fixtures to turns. */
+export function messageText(message: unknown): string {
+  const content = (message as { message?: { content?: unknown } } | null)?.message?.content;
+  if (typeof content === "string") return content.trim();
+  if (!Array.isArray(content)) return "";
+  return content
+    .map((b: { type?: string; text?: string }) => b.type === "text" ? b.text ?? "" : "")
+    .join("")
+    .trim();
+}
+
+// ─── In-process AgentProcess ──────────────────────────────────────────────────
+
+/** Streams + exit/kill bookkeeping shared by the emulated processes. */
+class EmulatedProcess extends EventEmitter implements AgentProcess {
+  readonly stdin  = new PassThrough();
+  readonly stdout = new PassThrough();
+  readonly stderr = new PassThrough();
+  exitCode: number | null = null;
+  signalCode: NodeJS.Signals | null = null;
+
+  kill(signal: NodeJS.Signals = "SIGTERM"): boolean {
+    if (this.exited) return false;
+    this.finish(null, signal);
+    return true;
+  }
+
+  protected get exited(): boolean {
+    return this.exitCode !== null || this.signalCode !== null;
+  }
+
+  protected finish(code: number | null, signal: NodeJS.Signals | null = null): void {
+    if (this.exited) return;
+    this.exitCode = code;
+    this.signalCode = signal;
+    this.stdout.end();
+    this.stderr.end();
+    this.stdin.destroy();
+    // Like ChildProcess: "exit" after the output streams are flushed
+    setImmediate(() => this.emit("exit", code, signal));
+  }
+}
+
+// ─── Replay ───────────────────────────────────────────────────────────────────
+
+interface Fixture {
+  file: string;
+  prompt: string;
+  steps: FixtureStep[];
+}
+
+export function loadFixtures(dir: string): Fixture[] {
+  const files = fs.readdirSync(dir).filter(f => f.endsWith(".jsonl")).sort();
+  return files.map((f) => {
+    const file = path.join(dir, f);
+    const steps = fs.readFileSync(file, "utf-8")
+      .split("\n")
+      .filter(line => line.trim())
+      .map((line, i) => {
+        try { return JSON.parse(line) as FixtureStep; } catch {
+          throw new Error(`${file}:${i + 1}: invalid JSON`);
+        }
+      });
+    const first = steps.find(s => s.kind === "stdin") as { message: unknown } | undefined;
+    return { file, prompt: first ? messageText(first.message) : "", steps };
+  });
+}
+
+export class ReplayRunner implements AgentRunner {
+  readonly name = "replay";
+  private fixtures: Fixture[];
+  /** prompt → how many times it has been replayed */
+  private uses = new Map<string, number>();
+
+  constructor(dir: string, private readonly log: (...args: unknown[]) => void = () => {}) {
+    this.fixtures = loadFixtures(dir);
+    this.log(`replay: ${this.fixtures.length} fixture(s) from ${dir}`);
+  }
+
+  start(spec: RunSpec): AgentProcess {
+    return new ReplayProcess(spec, (prompt) => this.pick(prompt));
+  }
+
+  private pick(prompt: string): Fixture | undefined {
+    const matches = this.fixtures.filter(f => f.prompt === prompt);
+    if (matches.length === 0) return undefined;
+    const n = this.uses.get(prompt) ?? 0;
+    this.uses.set(prompt, n + 1);
+    const fixture = matches[n % matches.length];
+    this.log(`replay: ${path.basename(fixture.file)}`);
+    return fixture;
+  }
+}
+
+class ReplayProcess extends EmulatedProcess {
+  /** Steps between recorded stdin messages: segments[0] before the first. */
+  private segments: FixtureStep[][] = [];
+  private received = 0;
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(private readonly spec: RunSpec, pick: (prompt: string) => Fixture | undefined) {
+    super();
+    const rl = readline.createInterface({ input: this.stdin, terminal: false });
+
+    rl.on("line", (line) => {
+      let message: unknown;
+      try { message = JSON.parse(line); } catch { return; }
+
+      if (this.received === 0) {
+        const fixture = pick(messageText(message));
+        if (!fixture) {
+          this.stderr.write(`replay: no fixture matches prompt ${JSON.stringify(messageText(message))}\n`);
+          this.finish(1);
+          return;
+        }
+        this.segments = split(fixture.steps);
+        this.play(this.segments[0]);
+      }
+      this.received++;
+      this.play(this.segments[this.received] ?? []);
+    });
+
+    // stdin closed: every expected result has been delivered
+    rl.on("close", () => {
+      this.queue.then(() => this.finish(0));
+    });
+  }
+
+  private play(steps: FixtureStep[]): void {
+    this.queue = this.queue.then(async () => {
+      for (const step of steps) {
+        if (this.exited) return;
+        await this.runStep(step);
+      }
+    }).catch((err: unknown) => {
+      this.stderr.write(`replay: ${err}\n`);
+      this.finish(1);
+    });
+  }
+
+  private async runStep(step: FixtureStep): Promise<void> {
+    switch (step.kind) {
+      case "stdout":
+        this.stdout.write(JSON.stringify(step.event) + "\n");
+        // Give the server a chance to react between events, like a real pipe
+        await new Promise(r => setImmediate(r));
+        return;
+      case "file": {
+        const file = path.resolve(this.spec.cwd, step.path);
+        fs.mkdirSync(path.dirname(file), { recursive: true });
+        fs.writeFileSync(file, step.content);
+        return;
+      }
+      case "approval":
+        await askApproval(this.spec.mcpConfig, step);
+        return;
+    }
+  }
+}
+
+/** Split steps at recorded stdin messages. */
+function split(steps: FixtureStep[]): FixtureStep[][] {
+  const segments: FixtureStep[][] = [[]];
+  for (const step of steps) {
+    if (step.kind === "stdin") segments.push([]);
+    else if (step.kind !== "meta") segments[segments.length - 1].push(step);
+  }
+  return segments;
+}
+
+/** Call the approval bridge's prompt tool, as the CLI does. */
+async function askApproval(
+  mcpConfig: string,
+  step: { tool_name: string; input: unknown; tool_use_id?: string },
+): Promise<unknown> {
+  const config = JSON.parse(mcpConfig) as { mcpServers: Record<string, { url: string }> };
+  const url = config.mcpServers[MCP_SERVER_NAME].url;
+  const res = await fetch(url, {
+    method:  "POST",
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify({
+      jsonrpc: "2.0", id: 1, method: "tools/call",
+      params: {
+        name: PROMPT_TOOL_NAME,
+        arguments: { tool_name: step.tool_name, input: step.input, tool_use_id: step.tool_use_id },
+      },
+    }),
+  });
+  return res.json();
+}
+
+// ─── Recording ────────────────────────────────────────────────────────────────
+
+export class RecordingRunner implements AgentRunner {
+  readonly name: string;
+
+  constructor(
+    private readonly inner: AgentRunner,
+    private readonly dir: string,
+    private readonly log: (...args: unknown[]) => void = () => {},
+  ) {
+    this.name = `${inner.name}+record`;
+    fs.mkdirSync(dir, { recursive: true });
+  }
+
+  start(spec: RunSpec): AgentProcess {
+    const file = path.join(this.dir, `${Date.now()}-${spec.turnId}.jsonl`);
+    this.log(`record: ${file}`);
+    const record = (step: FixtureStep) => fs.appendFileSync(file, JSON.stringify(step) + "\n");
+    record({ kind: "meta", version: FIXTURE_VERSION, recorded_at: Date.now(), cwd: spec.cwd, model: spec.model });
+    return new RecordingProcess(this.inner.start(spec), record);
+  }
+}
+
+/** Forwards to a real process, recording stdin messages and stdout events. */
+class RecordingProcess extends EmulatedProcess {
+  constructor(private readonly inner: AgentProcess, record: (step: FixtureStep) => void) {
+    super();
+
+    readline.createInterface({ input: this.stdin, terminal: false }).on("line", (line) => {
+      try { record({ kind: "stdin", message: JSON.parse(line) }); } catch { /* not JSON */ }
+    });
+    this.stdin.pipe(inner.stdin);
+
+    readline.createInterface({ input: inner.stdout, terminal: false }).on("line", (line) => {
+      try { record({ kind: "stdout", event: JSON.parse(line) }); } catch { /* not JSON */ }
+    });
+    inner.stdout.pipe(this.stdout, { end: false });
+    inner.stderr?.pipe(this.stderr, { end: false });
+
+    // "exit" can fire before stdout is drained; finish once both happened
+    const drained = new Promise(resolve => inner.stdout.once("end", resolve));
+    inner.on("error", (err) => this.emit("error", err));
+    inner.on("exit", (code, signal) => { drained.then(() => this.finish(code, signal)); });
+  }
+
+  kill(signal: NodeJS.Signals = "SIGTERM"): boolean {
+    return this.inner.kill(signal);
+  }
+}
@@ -0,0 +1,123 @@
+/**
+ * Agent runners: what actually executes a turn.
+ *
+ * The server describes a turn as a RunSpec and gets back an AgentProcess that
+ * speaks the CLI's stream-json protocol: user messages in on stdin, NDJSON
+ * events out on stdout, an "exit" event at the end. A real ChildProcess fits
+ * the interface as-is, so runners that spawn something can hand it back
+ * directly; others (see replay.ts) emulate one in-process.
+ *
+ *   CliRunner        spawns the local `claude` CLI (default)
+ *   ReplayRunner     plays back recorded transcripts   (replay.ts)
+ *   RecordingRunner  wraps another runner and saves transcripts (replay.ts)
+ */
+
+import { spawn } from "child_process";
+import type { Readable, Writable } from "stream";
+import { PERMISSION_PROMPT_TOOL } from "./approvals.js";
+import type { PermissionMode } from "./types.js";
+
+// ─── Interface ────────────────────────────────────────────────────────────────
+
+/** Which conversation the turn continues. */
+export type SessionSpec =
+  | { mode: "new"; sessionId: string }
+  | { mode: "resume"; sessionId: string; fork: boolean };
+
+export interface RunSpec {
+  /** Server-side ids, for runners that key anything by turn. */
+  threadId: string;
+  turnId: string;
+  cwd: string;
+  permissionMode: PermissionMode;
+  session: SessionSpec;
+  /** MCP config routing permission prompts to the approval bridge. */
+  mcpConfig: string;
+  model?: string;
+  /** Used when `model` is overloaded. */
+  fallbackModel?: string;
+  /** Spending cap the agent should stop at. */
+  maxBudgetUsd?: number;
+  /** Replaces the agent's default system prompt. */
+  systemPrompt?: string;
+  /** Added to the agent's default system prompt. */
+  appendSystemPrompt?: string;
+  /** Tool rules allowed without prompting (e.g. "Read", "Bash(git log:*)"). */
+  allowedTools?: string[];
+  /** Tool rules the agent may not use at all. */
+  disallowedTools?: string[];
+}
+
+/** The subset of ChildProcess the server relies on. */
+export interface AgentProcess {
+  readonly stdin: Writable;
+  readonly stdout: Readable;
+  readonly stderr: Readable | null;
+  readonly exitCode: number | null;
+  readonly signalCode: NodeJS.Signals | null;
+  kill(signal?: NodeJS.Signals): boolean;
+  on(event: "exit", listener: (code: number | null, signal: NodeJS.Signals | null) => void): this;
+  on(event: "error", listener: (err: Error) => void): this;
+  once(event: "exit", listener: (code: number | null, signal: NodeJS.Signals | null) => void): this;
+}
+
+export interface AgentRunner {
+  /** Short name for logs and initialize (e.g. "cli", "replay"). */
+  readonly name: string;
+  start(spec: RunSpec): AgentProcess;
+}
+
+// ─── CLI runner ───────────────────────────────────────────────────────────────
+
+export class CliRunner implements AgentRunner {
+  readonly name = "cli";
+
+  constructor(
+    private readonly claudePath: string,
+    private readonly log: (...args: unknown[]) => void = () => {},
+  ) {}
+
+  start(spec: RunSpec): AgentProcess {
+    const args = this.buildArgs(spec);
+    this.log(`spawn: ${this.claudePath} ${args.join(" ")}`);
+    this.log(`cwd: ${spec.cwd}`);
+
+    return spawn(this.claudePath, args, {
+      cwd:   spec.cwd,
+      stdio: ["pipe", "pipe", "pipe"],
+      env:   { ...process.env, CLAUDECODE: undefined } as NodeJS.ProcessEnv,
+    });
+  }
+
+  buildArgs(spec: RunSpec): string[] {
+    const args = [
+      "--print",
+      "--input-format", "stream-json",
+      "--output-format", "stream-json",
+      "--replay-user-messages",   // echo stdin messages back: our delivery receipt
+      "--verbose",
+      "--include-partial-messages",
+      "--permission-mode", spec.permissionMode,
+      // Route permission prompts to the approval bridge
+      "--mcp-config", spec.mcpConfig,
+      "--permission-prompt-tool", PERMISSION_PROMPT_TOOL,
+    ];
+
+    if (spec.model) args.push("--model", spec.model);
+    if (spec.fallbackModel) args.push("--fallback-model", spec.fallbackModel);
+    if (spec.maxBudgetUsd !== undefined) args.push("--max-budget-usd", spec.maxBudgetUsd.toFixed(4));
+    if (spec.systemPrompt) args.push("--system-prompt", spec.systemPrompt);
+    if (spec.appendSystemPrompt) args.push("--append-system-prompt", spec.appendSystemPrompt);
+    if (spec.allowedTools?.length) args.push("--allowedTools", ...spec.allowedTools);
+    if (spec.disallowedTools?.length) args.push("--disallowedTools", ...spec.disallowedTools);
+
+    if (spec.session.mode === "new") {
+      args.push("--session-id", spec.session.sessionId);
+    } else {
+      args.push("--resume", spec.session.sessionId);
+      if (spec.session.fork) args.push("--fork-session");
+    }
+
+    return args;
+  }
+}
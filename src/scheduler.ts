@@ -0,0 +1,122 @@
+/**
+ * Global turn scheduler.
+ *
+ * Every turn goes through here before its claude process is spawned. A turn
+ * starts right away only if:
+ *   - fewer than `maxConcurrent` turns are running server-wide,
+ *   - its connection runs fewer than `maxPerConnection` turns, and
+ *   - its thread has no running turn and no earlier queued turn.
+ * Otherwise it waits in a FIFO queue. Later turns may overtake a blocked one
+ * when they are not held back by the same thread or connection.
+ */
+
+import type { ConnectionState } from "./types.js";
+
+export interface SchedulerLimits {
+  /** Claude processes running at once, across all connections. */
+  maxConcurrent: number;
+  /** Running turns per connection. */
+  maxPerConnection: number;
+}
+
+export interface ScheduledTurn {
+  turn_id: string;
+  thread_id: string;
+  /** Connection that started the turn (counts against its limit). */
+  owner: ConnectionState;
+  /** Called once when the turn may run. */
+  start: () => void;
+}
+
+/** Told about every queued turn whose 1-based queue position changed. */
+export type QueueListener = (entry: ScheduledTurn, position: number) => void;
+
+export class TurnScheduler {
+  private queue: ScheduledTurn[] = [];
+  private running = new Map<string, ScheduledTurn>();
+  private positions = new Map<string, number>();
+
+  constructor(
+    private readonly limits: SchedulerLimits,
+    private readonly onQueued: QueueListener,
+  ) {}
+
+  /** Start the turn now if allowed, otherwise queue it. Returns true if it started. */
+  submit(entry: ScheduledTurn): boolean {
+    this.queue.push(entry);
+    this.pump();
+    return this.running.has(entry.turn_id);
+  }
+
+  /** A running turn's process is gone; free its slot. */
+  finish(turnId: string): void {
+    if (this.running.delete(turnId)) this.pump();
+  }
+
+  /** Remove a queued turn. Returns it, or undefined if it was not queued. */
+  cancel(turnId: string): ScheduledTurn | undefined {
+    const index = this.queue.findIndex(e => e.turn_id === turnId);
+    if (index < 0) return undefined;
+    const [entry] = this.queue.splice(index, 1);
+    this.positions.delete(turnId);
+    this.pump();
+    return entry;
+  }
+
+  isQueued(turnId: string): boolean {
+    return this.queue.some(e => e.turn_id === turnId);
+  }
+
+  hasQueued(threadId: string): boolean {
+    return this.queue.some(e => e.thread_id === threadId);
+  }
+
+  /** 1-based position of a queued turn, or undefined. */
+  position(turnId: string): number | undefined {
+    const index = this.queue.findIndex(e => e.turn_id === turnId);
+    return index < 0 ? undefined : index + 1;
+  }
+
+  /** Current load and limits, for scheduler/stats (`max_per_connection: null` = unlimited). */
+  stats(): { running: number; queued: number; max_concurrent: number; max_per_connection: number | null } {
+    return {
+      running:            this.running.size,
+      queued:             this.queue.length,
+      max_concurrent:     this.limits.maxConcurrent,
+      max_per_connection: Number.isFinite(this.limits.maxPerConnection) ? this.limits.maxPerConnection : null,
+    };
+  }
+
+  private pump(): void {
+    const blockedThreads = new Set<string>();
+
+    for (let i = 0; i < this.queue.length && this.running.size < this.limits.maxConcurrent; ) {
+      const entry = this.queue[i];
+      if (!blockedThreads.has(entry.thread_id) && this.canStart(entry)) {
+        this.queue.splice(i, 1);
+        this.positions.delete(entry.turn_id);
+        this.running.set(entry.turn_id, entry);
+        entry.start();
+      } else {
+        // Turns on one thread run in order
+        blockedThreads.add(entry.thread_id);
+        i++;
+      }
+    }
+
+    this.queue.forEach((entry, i) => {
+      if (this.positions.get(entry.turn_id) === i + 1) return;
+      this.positions.set(entry.turn_id, i + 1);
+      this.onQueued(entry, i + 1);
+    });
+  }
+
+  private canStart(entry: ScheduledTurn): boolean {
+    let ownerRunning = 0;
+    for (const r of this.running.values()) {
+      if (r.thread_id === entry.thread_id) return false;
+      if (r.owner === entry.owner) ownerRunning++;
+    }
+    return ownerRunning < this.limits.maxPerConnection;
+  }
+}
@@ -2,20 +2,79 @@
  * ClaudeAppServer — core logic.
  *
  * Uses your locally installed `claude` CLI (no API key required).
- * Each turn spawns:   claude --print --output-format stream-json --include-partial-messages
- * and parses the NDJSON event stream back into JSON-RPC 2.0 notifications.
+ * Each turn is handed to an AgentRunner (runner.ts) — by default one that
+ * spawns  claude --print --input-format stream-json --output-format stream-json
+ * — and the NDJSON event stream is parsed back into JSON-RPC 2.0 notifications.
+ * stdin stays open for the whole turn so turn/steer can hand the running
+ * agent new messages; it is closed once every message has its `result`.
  *
  * Claude session IDs tie turns together so the CLI can --resume conversations.
+ * Threads, turns and items are mirrored into a ThreadStore so they survive
+ * a server restart.
+ *
+ * Tool approvals are answered in-flight: the CLI is pointed at our
+ * ApprovalBridge as its --permission-prompt-tool, each prompt becomes an
+ * approval/requested notification, and the turn blocks until approval/respond.
+ *
+ * Every thread notification carries a per-thread `seq`. The last N are kept
+ * in a replay buffer so a client that reconnects can ask for what it missed.
+ *
+ * In git workspaces the working tree is checkpointed before and after each
+ * turn (see checkpoints.ts). Every resumed turn forks the CLI session, so the
+ * session as of any turn stays resumable; turn/revert and thread/rollback use
+ * both to put files and conversation back to an earlier point.
+ *
+ * Turns do not spawn the CLI directly: a TurnScheduler caps how many run at
+ * once (server-wide and per connection) and queues the rest in order.
+ *
+ * Each running turn is watched for a wall-clock limit and for idle output
+ * (watchdog.ts); a stuck CLI is killed, SIGTERM first and SIGKILL after a
+ * grace period, and the turn ends with status "timeout". shutdown() kills
+ * every child the same way.
+ *
+ * Token usage and cost from each `result` event are kept on the turn and
+ * checked against optional thread / connection / daily budgets (usage.ts).
+ *
+ * Defaults for new threads (model, permission mode) and named profiles come
+ * from the config file (config.ts); a thread started with a profile runs its
+ * turns with that profile's model, tools, system prompt and MCP servers.
+ * thread/update changes a thread's own settings (permission mode, model,
+ * system prompts, allowed / disallowed tool rules, MCP servers) between
+ * turns. The operator's append prompt is added after the profile's and the
+ * thread's. app/list reports the MCP servers the CLI actually loaded, from
+ * its system/init event.
+ *
+ * When workspace roots are configured, threads may only run inside them
+ * (thread/start and turn/start check the cwd after resolving symlinks).
+ *
+ * git/* runs git in the repository containing a thread's cwd (git.ts). Writes
+ * are checked against the thread's permission mode and tool rules as if the
+ * agent ran the same command, and recorded as "git" items in the thread's own
+ * item list, outside any turn.
+ *
+ * WebSocket connections must belong to a paired device (auth.ts): until one
+ * is paired or presents its token, only initialize and auth/pair are allowed.
  *
  * Methods:
  *   Session:   initialize
- *   Threads:   thread/start  thread/resume  thread/fork
- *   Turns:     turn/start    turn/steer     turn/interrupt
- *   Discovery: model/list    skills/list    app/list
+ *   Auth:      auth/pair     auth/devices   auth/revoke
+ *   Threads:   thread/start  thread/resume  thread/fork   thread/update
+ *              thread/list   thread/delete  thread/archive
+ *              thread/subscribe  thread/unsubscribe  thread/replay
+ *              thread/rollback
+ *   Turns:     turn/start    turn/steer     turn/interrupt  turn/revert
+ *              turn/cancel   scheduler/stats
+ *   Usage:     thread/usage  usage/summary
+ *   Discovery: model/list    skills/list    app/list   profile/list
+ *              workspace/list
+ *   Files:     fs/list       fs/stat        fs/read    fs/search
+ *   Git:       git/status    git/diff       git/stage  git/commit
+ *              git/branch/list  git/checkout
  */
 
-import { execFileSync, spawn } from "child_process";
-import * as os from "os";
+import { execFileSync } from "child_process";
+import * as fs from "fs";
+import * as path from "path";
 import * as readline from "readline";
 import { v4 as uuid } from "uuid";
 
@@ -34,40 +93,66 @@ const CLAUDE_BIN = resolveClaude();
 
 import {
   ok, rpcErr, notif,
+  type RpcNotification,
+  type RpcId,
   isRequest,
-  E, RpcException,
+  E, RpcException, checkCancelled,
   type RpcIncoming,
   type RpcResponse,
 } from "./protocol.js";
 import type {
-  ConnectionState, Thread, Turn, StoredItem, PermissionMode,
+  ConnectionState, Thread, Turn, StoredItem, PermissionMode, UserMessage, Usage, GitItem,
 } from "./types.js";
 import { BUILTIN_SKILLS } from "./tools.js";
+import { MemoryThreadStore, INTERRUPTED_BY_SHUTDOWN, type ThreadStore } from "./store.js";
+import { normalizeContent, contentText } from "./content.js";
+import { ToolActivity } from "./activity.js";
+import {
+  createCheckpoint, planRestore, applyRestore, deleteCheckpoints, type CheckpointPair,
+} from "./checkpoints.js";
+import {
+  emptyUsage, addUsage, applyResult, dayKey, exceeded, headroom, budgetError,
+  type Budgets, type BudgetStatus, type ResultUsage,
+} from "./usage.js";
+import { TurnScheduler } from "./scheduler.js";
+import { Watchdog, terminate, isAlive } from "./watchdog.js";
+import { CliRunner, type AgentProcess, type AgentRunner, type SessionSpec } from "./runner.js";
+import type { DeviceAuth } from "./auth.js";
+import { PERMISSION_MODES, validateMcpServers, type McpServerConfig, type Profile } from "./config.js";
+import { claudeUserDir, expandHome, realpathOrSelf, resolveWithin } from "./paths.js";
+import { scanExtensions } from "./skills.js";
+import { listDir, readRange, search, statPath, type SearchOptions } from "./files.js";
+import {
+  requireRepo, repoPaths, repoStatus, diffWorktree, diffCommits, stagePaths, unstagePaths, commitIndex,
+  listBranches, switchBranch, checkRefName,
+} from "./git.js";
+import { DEFAULT_MODELS, findModel, modelNames, type ModelInfo } from "./models.js";
+import {
+  ApprovalBridge, approvalRule, MCP_SERVER_NAME,
+  type ApprovalDecision, type ApprovalPrompt, type PromptResult,
+} from "./approvals.js";
 
 // ─── Constants ────────────────────────────────────────────────────────────────
 
 const SERVER_NAME    = "claude-app-server";
 const SERVER_VERSION = "1.0.0";
 
-const AVAILABLE_MODELS = [
-  { id: "claude-opus-4-6",   name: "Claude Opus 4.6",   aliases: ["opus"] },
-  { id: "claude-sonnet-4-6", name: "Claude Sonnet 4.6", aliases: ["sonnet"] },
-  { id: "claude-haiku-4-5",  name: "Claude Haiku 4.5",  aliases: ["haiku"] },
-];
-
 // ─── Helpers ──────────────────────────────────────────────────────────────────
 
 function createThread(cwd: string, permMode: PermissionMode): Thread {
-  return { id: uuid(), created_at: Date.now(), turns: [], cwd, permission_mode: permMode };
+  return { id: uuid(), created_at: Date.now(), turns: [], items: [], cwd, permission_mode: permMode };
 }
 
-function createTurn(threadId: string, userContent: string): Turn {
+function createTurn(threadId: string, input: UserMessage): Turn {
   return {
     id: uuid(),
     thread_id: threadId,
     status: "active",
-    user_content: userContent,
-    steer_queue: [],
+    user_content: contentText(input.blocks),
+    content: input.blocks,
+    input,
+    pending_input: [],
+    awaiting_results: 0,
     items: [],
     abortController: new AbortController(),
     created_at: Date.now(),
@@ -77,21 +162,364 @@ function createTurn(threadId: string, userContent: string): Turn {
 function serializeTurn(turn: Turn) {
   return {
     id: turn.id, thread_id: turn.thread_id, status: turn.status,
-    user_content: turn.user_content, items: turn.items,
+    user_content: turn.user_content, content: turn.content, items: turn.items,
     created_at: turn.created_at, completed_at: turn.completed_at, error: turn.error,
+    checkpoint: turn.checkpoint, reverted_at: turn.reverted_at, usage: turn.usage, model: turn.model,
+  };
+}
+
+/** Sum of usage over turns (reverted turns still cost money and are included). */
+function totalUsage(turns: Turn[]): Usage {
+  return turns.reduce((sum, t) => t.usage ? addUsage(sum, t.usage) : sum, emptyUsage());
+}
+
+/** Distinct paths touched by the turn's file_change items, in first-touch order. */
+function filesChanged(turn: Turn): string[] {
+  const paths = turn.items.flatMap(s => s.item.type === "file_change" ? [s.item.path] : []);
+  return [...new Set(paths)];
+}
+
+type ThreadStatus = "running" | "idle" | "archived";
+
+function threadStatus(thread: Thread): ThreadStatus {
+  if (thread.active_turn_id) return "running";
+  return thread.archived_at ? "archived" : "idle";
+}
+
+function lastActivity(thread: Thread): number {
+  const last = thread.turns[thread.turns.length - 1];
+  return last ? (last.completed_at ?? last.created_at) : thread.created_at;
+}
+
+/** Add `servers` to an --mcp-config value; entries already there (the approval bridge) win. */
+function withMcpServers(mcpConfig: string, servers?: Record<string, McpServerConfig>): string {
+  if (!servers || Object.keys(servers).length === 0) return mcpConfig;
+  const config = JSON.parse(mcpConfig) as { mcpServers: Record<string, unknown> };
+  return JSON.stringify({ mcpServers: { ...servers, ...config.mcpServers } });
+}
+
+const MAX_PROJECTS = 500;
+
+/** Visible subdirectories of a workspace root, for a client-side project picker. */
+function listProjects(root: string): { name: string; path: string; git: boolean }[] {
+  let entries: fs.Dirent[];
+  try { entries = fs.readdirSync(root, { withFileTypes: true }); } catch { return []; }
+  return entries
+    .filter(e => e.isDirectory() && !e.name.startsWith("."))
+    .map(e => e.name)
+    .sort((a, b) => a.localeCompare(b))
+    .slice(0, MAX_PROJECTS)
+    .map(name => {
+      const dir = path.join(root, name);
+      return { name, path: dir, git: fs.existsSync(path.join(dir, ".git")) };
+    });
+}
+
+/** "Read", "Bash(git status:*)", "mcp__tracker__search": a tool name and an optional pattern. */
+const TOOL_RULE = /^([A-Za-z][\w-]*)(?:\((.+)\))?$/s;
+
+/**
+ * Validate a client-supplied allowed_tools / disallowed_tools list. Tool names
+ * must be in `known`; MCP tools (mcp__<server>__<tool>) pass unchecked, since
+ * only the CLI knows which servers it loaded.
+ */
+function checkToolRules(value: unknown, field: string, known: string[]): string[] {
+  if (!Array.isArray(value)) {
+    throw new RpcException(E.InvalidParams, `${field} must be an array of tool rules.`);
+  }
+  return value.map((rule: unknown, i) => {
+    const text = typeof rule === "string" ? rule.trim() : "";
+    const match = TOOL_RULE.exec(text);
+    if (!match) {
+      throw new RpcException(E.InvalidParams,
+        `${field}[${i}] must be a tool rule like "Read" or "Bash(git status:*)", got ${JSON.stringify(rule)}.`);
+    }
+    const name = match[1];
+    if (!name.startsWith("mcp__") && !known.includes(name)) {
+      throw new RpcException(E.InvalidParams,
+        `${field}[${i}]: unknown tool "${name}". Known tools: ${known.join(", ")}, or mcp__<server>__<tool>.`,
+        { field, tool: name, known });
+    }
+    return text;
+  });
+}
+
+/** Non-empty text params such as system_prompt; `null` passes only where it clears a setting. */
+function checkText(value: unknown, key: string, clearable = false): void {
+  if (value === undefined || (clearable && value === null)) return;
+  if (typeof value !== "string" || !value.trim()) {
+    throw new RpcException(E.InvalidParams,
+      `${key} must be a non-empty string` + (clearable ? ", or null to clear it." : "."));
+  }
+}
+
+/**
+ * The --append-system-prompt text: profile, thread, then the operator's
+ * server-wide prompt, which comes last so no client-supplied text follows it.
+ */
+function joinPrompts(...prompts: (string | undefined)[]): string | undefined {
+  const parts = prompts.filter((p): p is string => !!p?.trim());
+  return parts.length > 0 ? parts.join("\n\n") : undefined;
+}
+
+/** Client-supplied MCP servers; stdio ones only if the operator allowed them. */
+function checkMcpServers(value: unknown, allowCommands: boolean): Record<string, McpServerConfig> {
+  const servers = validateMcpServers(value, "mcp_servers", (msg) => new RpcException(E.InvalidParams, msg));
+  const stdio = Object.keys(servers).filter(name => !("url" in servers[name]));
+  if (stdio.length > 0 && !allowCommands) {
+    throw new RpcException(E.PermissionDenied,
+      `mcp_servers.${stdio[0]}: this server does not accept MCP server commands from clients. ` +
+      `Use a local URL, a profile, or start the server with --allow-client-mcp-commands.`,
+      { servers: stdio });
+  }
+  return servers;
+}
+
+function checkPermissionMode(mode: unknown): void {
+  if (mode !== undefined && !PERMISSION_MODES.includes(mode as PermissionMode)) {
+    throw new RpcException(E.InvalidParams, `permission_mode must be one of: ${PERMISSION_MODES.join(", ")}`);
+  }
+}
+
+/** The per-thread agent settings, as returned by thread/update and thread/resume. */
+function threadSettings(thread: Thread) {
+  return {
+    permission_mode:      thread.permission_mode,
+    model:                thread.model,
+    fallback_model:       thread.fallback_model,
+    system_prompt:        thread.system_prompt,
+    append_system_prompt: thread.append_system_prompt,
+    allowed_tools:        thread.allowed_tools,
+    disallowed_tools:     thread.disallowed_tools,
+    // Entries may hold credentials; clients only see the names
+    mcp_servers:          thread.mcp_servers && Object.keys(thread.mcp_servers),
+  };
+}
+
+/** Whether a tool rule ("Bash", "Bash(git commit:*)", "Bash(git add -A -- .)") covers a shell command. */
+function bashRuleCovers(rule: string, command: string): boolean {
+  const match = TOOL_RULE.exec(rule.trim());
+  if (!match || match[1] !== "Bash") return false;
+  const pattern = match[2];
+  if (pattern === undefined) return true;
+  if (!pattern.endsWith(":*")) return command === pattern;
+  const prefix = pattern.slice(0, -2);
+  return command === prefix || command.startsWith(prefix + " ");
+}
+
+/** Lightweight view of a thread for thread/list (no items). */
+function summarizeThread(thread: Thread) {
+  const first = thread.turns[0];
+  const last  = thread.turns[thread.turns.length - 1];
+  return {
+    thread_id:          thread.id,
+    created_at:         thread.created_at,
+    last_activity_at:   lastActivity(thread),
+    cwd:                thread.cwd,
+    permission_mode:    thread.permission_mode,
+    profile:            thread.profile,
+    status:             threadStatus(thread),
+    archived_at:        thread.archived_at,
+    forked_from:        thread.forked_from,
+    first_user_message: first?.user_content.slice(0, 200),
+    turn_count:         thread.turns.length,
+    last_turn_status:   last?.status,
+  };
+}
+
+const LIST_DEFAULT_LIMIT = 50;
+const LIST_MAX_LIMIT     = 200;
+
+const DEFAULT_APPROVAL_TIMEOUT_MS = 5 * 60_000;
+const DEFAULT_REPLAY_BUFFER_SIZE  = 1000;
+const DEFAULT_MAX_CONCURRENT_TURNS = 8;
+const DEFAULT_TURN_TIMEOUT_MS     = 60 * 60_000;
+const DEFAULT_IDLE_TIMEOUT_MS     = 10 * 60_000;
+const DEFAULT_KILL_GRACE_MS       = 5_000;
+const APPROVAL_DECISIONS: ApprovalDecision[] = ["allow", "deny", "allow_always"];
+
+/** Per-thread notification sequence and replay buffer. */
+interface EventStream {
+  seq: number;
+  buffer: { seq: number; msg: RpcNotification }[];
+}
+
+/** A skills/list tool entry: from the built-in catalog, or just a name (MCP tools name their server). */
+function describeTool(name: string) {
+  const builtin = BUILTIN_SKILLS.find(s => s.name === name);
+  if (builtin) return builtin;
+  const mcp = /^mcp__(.+?)__(.+)$/.exec(name);
+  return mcp ? { name, mcp_server: mcp[1] } : { name };
+}
+
+/** What the CLI reported loading in a thread's latest system/init event. */
+interface SessionInit {
+  at:          number;
+  tools:       string[];
+  mcp_servers: { name: string; status: string }[];
+}
+
+/** A tool use waiting on approval/respond. */
+interface PendingApproval {
+  request_id: string;
+  thread:     Thread;
+  turn:       Turn;
+  prompt:     ApprovalPrompt;
+  expires_at: number;
+  timer:      NodeJS.Timeout;
+  resolve:    (result: PromptResult) => void;
+}
+
+function serializeApproval(pending: PendingApproval) {
+  return {
+    request_id:  pending.request_id,
+    thread_id:   pending.thread.id,
+    turn_id:     pending.turn.id,
+    tool_name:   pending.prompt.tool_name,
+    input:       pending.prompt.input,
+    tool_use_id: pending.prompt.tool_use_id,
+    expires_at:  pending.expires_at,
   };
 }
 
 // ─── ClaudeAppServer ─────────────────────────────────────────────────────────
 
+export interface ServerOptions {
+  debug?: boolean;
+  /** Where threads are persisted. Defaults to an in-memory (non-persistent) store. */
+  store?: ThreadStore;
+  /** How long a tool approval may stay unanswered before it is denied. */
+  approvalTimeoutMs?: number;
+  /** Notifications kept per thread for thread/replay. */
+  replayBufferSize?: number;
+  /** Spending limits in USD; unset means unlimited. */
+  budgets?: Budgets;
+  /** Claude processes allowed to run at once (default 8). */
+  maxConcurrentTurns?: number;
+  /** Running turns allowed per connection (default unlimited). */
+  maxTurnsPerConnection?: number;
+  /** Wall-clock limit per turn; 0 disables (default 60 minutes). */
+  turnTimeoutMs?: number;
+  /** Limit on time without CLI output; 0 disables (default 10 minutes). */
+  idleTimeoutMs?: number;
+  /** Time between SIGTERM and SIGKILL (default 5 seconds). */
+  killGraceMs?: number;
+  /** What executes turns (default: the claude CLI at `claudePath`). */
+  runner?: AgentRunner;
+  /** Device pairing; required by connections with `authRequired`. */
+  auth?: DeviceAuth;
+  /** Model for turns that name none (default: the CLI's own default). */
+  model?: string;
+  /** Model the CLI falls back to when the main one is overloaded. */
+  fallbackModel?: string;
+  /** Models clients may pick (default: DEFAULT_MODELS). */
+  models?: ModelInfo[];
+  /** Permission mode for new threads (default "default"). */
+  permissionMode?: PermissionMode;
+  /** Named agent profiles for thread/start { profile }. */
+  profiles?: Record<string, Profile>;
+  /** Profile for threads started without one. */
+  defaultProfile?: string;
+  /** Directories threads may run in (with everything below them); empty = anywhere. */
+  workspaces?: string[];
+  /** Appended to every turn's system prompt, after anything clients or profiles add. */
+  appendSystemPrompt?: string;
+  /**
+   * Accept stdio MCP servers in thread/start and thread/update. Off by
+   * default: the CLI runs their commands without asking for approval.
+   */
+  allowClientMcpCommands?: boolean;
+}
+
 export class ClaudeAppServer {
   private threads = new Map<string, Thread>();
   private claudePath: string;
   private debug: boolean;
-
-  constructor(claudePath: string, debug = false) {
+  private store: ThreadStore;
+  private approvals: ApprovalBridge;
+  private pendingApprovals = new Map<string, PendingApproval>();
+  /** thread id → connections receiving that thread's notifications */
+  private subscribers = new Map<string, Set<ConnectionState>>();
+  private streams = new Map<string, EventStream>();
+  private replayBufferSize: number;
+  /** Identifies this server process; seq numbers restart when it changes. */
+  private readonly epoch = uuid();
+  private approvalTimeoutMs: number;
+  /** Threads with a rollback in progress (no turn/start until it finishes). */
+  private rollingBack = new Set<string>();
+  private budgets: Budgets;
+  /** Connection that started each running turn (charged for its cost). */
+  private turnOwners = new WeakMap<Turn, ConnectionState>();
+  /** Each started turn's run, settled once its process is gone and the turn is saved. */
+  private turnRuns = new WeakMap<Turn, Promise<void>>();
+  private connectionSpend = new WeakMap<ConnectionState, number>();
+  /** Spend for the current local day, including threads deleted since. */
+  private daily = { day: dayKey(), cost_usd: 0 };
+  private scheduler: TurnScheduler;
+  private turnTimeoutMs: number;
+  private idleTimeoutMs: number;
+  private killGraceMs: number;
+  /** Every claude process still alive, including ones already interrupted. */
+  private children = new Set<AgentProcess>();
+  private runner: AgentRunner;
+  private auth?: DeviceAuth;
+  /** Open connections (so auth/revoke can close a device's sockets). */
+  private connections = new Set<ConnectionState>();
+  private defaultModel?: string;
+  private fallbackModel?: string;
+  private models: ModelInfo[];
+  private defaultPermissionMode: PermissionMode;
+  private profiles: Record<string, Profile>;
+  private defaultProfile?: string;
+  /** Allowed workspace roots (real paths). */
+  private workspaces: string[];
+  private appendSystemPrompt?: string;
+  private allowClientMcpCommands: boolean;
+  /** thread id → what the CLI loaded on the thread's latest turn */
+  private sessionInits = new Map<string, SessionInit>();
+  /** cwd → the tools the CLI last reported there */
+  private workspaceTools = new Map<string, { at: number; tools: string[] }>();
+
+  constructor(claudePath: string, options: ServerOptions = {}) {
     this.claudePath = claudePath;
-    this.debug = debug;
+    this.debug = options.debug ?? false;
+    this.store = options.store ?? new MemoryThreadStore();
+    this.approvals = new ApprovalBridge((...a) => this.log(...a));
+    this.approvalTimeoutMs = options.approvalTimeoutMs ?? DEFAULT_APPROVAL_TIMEOUT_MS;
+    this.replayBufferSize = options.replayBufferSize ?? DEFAULT_REPLAY_BUFFER_SIZE;
+    this.budgets = options.budgets ?? {};
+    this.turnTimeoutMs = options.turnTimeoutMs ?? DEFAULT_TURN_TIMEOUT_MS;
+    this.idleTimeoutMs = options.idleTimeoutMs ?? DEFAULT_IDLE_TIMEOUT_MS;
+    this.killGraceMs = options.killGraceMs ?? DEFAULT_KILL_GRACE_MS;
+    this.runner = options.runner ?? new CliRunner(claudePath, (...a) => this.log(...a));
+    this.auth = options.auth;
+    this.defaultModel = options.model;
+    this.fallbackModel = options.fallbackModel;
+    this.models = options.models ?? DEFAULT_MODELS;
+    this.defaultPermissionMode = options.permissionMode ?? "default";
+    this.profiles = options.profiles ?? {};
+    this.defaultProfile = options.defaultProfile;
+    this.workspaces = (options.workspaces ?? []).map(w => realpathOrSelf(expandHome(w)));
+    this.appendSystemPrompt = options.appendSystemPrompt;
+    this.allowClientMcpCommands = options.allowClientMcpCommands ?? false;
+    this.scheduler = new TurnScheduler({
+      maxConcurrent:    options.maxConcurrentTurns ?? DEFAULT_MAX_CONCURRENT_TURNS,
+      maxPerConnection: options.maxTurnsPerConnection ?? Infinity,
+    }, (entry, position) => {
+      // After the turn/start response, like turn/started (unless it has left the queue since)
+      setImmediate(() => {
+        if (!this.scheduler.isQueued(entry.turn_id)) return;
+        this.notify(entry.thread_id, "turn/queued", { turn_id: entry.turn_id, thread_id: entry.thread_id, position });
+      });
+    });
+
+    for (const thread of this.store.load()) {
+      this.threads.set(thread.id, thread);
+      for (const turn of thread.turns) {
+        if (turn.usage && dayKey(turn.created_at) === this.daily.day) this.daily.cost_usd += turn.usage.cost_usd;
+      }
+    }
+    this.log(`loaded ${this.threads.size} thread(s) from store`);
   }
 
   private log(...args: unknown[]): void {
@@ -101,35 +529,138 @@ export class ClaudeAppServer {
   // ── Entry point ────────────────────────────────────────────────────────────
 
   async handleMessage(msg: RpcIncoming, conn: ConnectionState): Promise<RpcResponse | null> {
-    if (!isRequest(msg)) return null;       // client notifications are ignored
+    if (!isRequest(msg)) {
+      this.handleNotification(msg, conn);
+      return null;
+    }
     const { id, method, params } = msg;
+
+    const controller = new AbortController();
+    conn.inflight.set(id, controller);
     try {
       if (!conn.initialized && method !== "initialize") {
         throw new RpcException(E.NotInitialized, "Not initialized. Send initialize first.");
       }
-      const result = await this.dispatch(method, params, conn);
-      return ok(id, result);
+      if (conn.device && !this.auth?.registry.has(conn.device.device_id)) {
+        this.dropDevice(conn);
+      }
+      if (conn.authRequired && !conn.device && method !== "initialize" && method !== "auth/pair") {
+        throw new RpcException(E.Unauthorized,
+          "This device is not paired. Call auth/pair with the pair key, or initialize with a device token.");
+      }
+      return ok(id, await this.dispatch(method, params, conn, controller.signal));
     } catch (e) {
       if (e instanceof RpcException) return rpcErr(id, e.code, e.message, e.data);
       return rpcErr(id, E.InternalError, String(e));
+    } finally {
+      if (conn.inflight.get(id) === controller) conn.inflight.delete(id);
+    }
+  }
+
+  /** Client → server notifications. Unknown ones are ignored, as the spec requires. */
+  private handleNotification(msg: RpcNotification, conn: ConnectionState): void {
+    if (msg.method === "$/cancelRequest") {
+      const p = (msg.params ?? {}) as { id?: RpcId };
+      if (p.id !== undefined) conn.inflight.get(p.id)?.abort();
+    }
+  }
+
+  /**
+   * Stop every running turn and kill all claude processes (SIGTERM, then
+   * SIGKILL after the grace period). Resolves once they have exited.
+   */
+  async shutdown(): Promise<void> {
+    for (const thread of this.threads.values()) {
+      const turn = thread.turns.find(t => t.id === thread.active_turn_id);
+      if (!turn) continue;
+      turn.status = "interrupted";
+      turn.error = INTERRUPTED_BY_SHUTDOWN;
+      turn.completed_at = Date.now();
+      thread.active_turn_id = undefined;
+      this.store.saveTurn(turn);
+      turn.abortController.abort();
+    }
+    this.log(`shutdown: stopping ${this.children.size} claude process(es)`);
+    await Promise.all([...this.children].map(proc => terminate(proc, this.killGraceMs)));
+    this.approvals.close();
+  }
+
+  /** Last resort from a process "exit" handler: SIGKILL anything still running. */
+  killChildren(): void {
+    for (const proc of this.children) {
+      if (isAlive(proc)) proc.kill("SIGKILL");
+    }
+  }
+
+  /** Register a new client connection (call when it opens). */
+  connect(conn: ConnectionState): void {
+    this.connections.add(conn);
+  }
+
+  /** Drop every subscription held by a connection (call when it closes). */
+  disconnect(conn: ConnectionState): void {
+    this.connections.delete(conn);
+    for (const [threadId, subs] of this.subscribers) {
+      subs.delete(conn);
+      if (subs.size === 0) this.subscribers.delete(threadId);
     }
   }
 
   // ── Dispatcher ─────────────────────────────────────────────────────────────
 
-  private async dispatch(method: string, params: unknown, conn: ConnectionState): Promise<unknown> {
+  // Long-running handlers take `signal`, aborted by $/cancelRequest. Reads
+  // (fs/search, git/status, git/diff, git/branch/list) stop early and answer
+  // RequestCancelled. Writes (git/stage, git/commit, git/checkout, turn/revert,
+  // thread/rollback) only check it before they change anything: once started
+  // they finish, and the response says what actually happened. Other methods
+  // are quick and ignore cancellation.
+
+  private async dispatch(
+    method: string,
+    params: unknown,
+    conn: ConnectionState,
+    signal: AbortSignal,
+  ): Promise<unknown> {
     switch (method) {
       case "initialize":       return this.initialize(params, conn);
+      case "auth/pair":        return this.authPair(params, conn);
+      case "auth/devices":     return this.authDevices(conn);
+      case "auth/revoke":      return this.authRevoke(params, conn);
       case "thread/start":     return this.threadStart(params);
       case "thread/resume":    return this.threadResume(params);
       case "thread/fork":      return this.threadFork(params);
+      case "thread/update":    return this.threadUpdate(params);
+      case "thread/list":      return this.threadList(params);
+      case "thread/delete":    return this.threadDelete(params);
+      case "thread/archive":   return this.threadArchive(params);
+      case "thread/subscribe":   return this.threadSubscribe(params, conn);
+      case "thread/unsubscribe": return this.threadUnsubscribe(params, conn);
+      case "thread/replay":      return this.threadReplay(params);
+      case "thread/rollback":    return this.threadRollback(params, signal);
       case "turn/start":       return this.turnStart(params, conn);
       case "turn/steer":       return this.turnSteer(params);
       case "turn/interrupt":   return this.turnInterrupt(params);
+      case "turn/revert":      return this.turnRevert(params, signal);
+      case "turn/cancel":      return this.turnCancel(params);
+      case "scheduler/stats":  return this.scheduler.stats();
       case "approval/respond": return this.approvalRespond(params);
-      case "model/list":       return { models: AVAILABLE_MODELS };
-      case "skills/list":      return { skills: BUILTIN_SKILLS };
-      case "app/list":         return { apps: [] };
+      case "thread/usage":     return this.threadUsage(params);
+      case "usage/summary":    return this.usageSummary(params, conn);
+      case "model/list":       return this.modelList();
+      case "skills/list":      return this.skillsList(params);
+      case "app/list":         return this.appList(params);
+      case "profile/list":     return this.profileList();
+      case "workspace/list":   return this.workspaceList();
+      case "fs/list":          return this.fsList(params);
+      case "fs/stat":          return this.fsStat(params);
+      case "fs/read":          return this.fsRead(params);
+      case "fs/search":        return this.fsSearch(params, signal);
+      case "git/status":       return this.gitStatus(params, signal);
+      case "git/diff":         return this.gitDiff(params, signal);
+      case "git/stage":        return this.gitStage(params, signal);
+      case "git/commit":       return this.gitCommit(params, signal);
+      case "git/branch/list":  return this.gitBranchList(params, signal);
+      case "git/checkout":     return this.gitCheckout(params, signal);
       default:
         throw new RpcException(E.MethodNotFound, `Unknown method: ${method}`);
     }
@@ -141,32 +672,481 @@ export class ClaudeAppServer {
     const p = (params ?? {}) as {
       client?: { name?: string; version?: string };
       cwd?: string;
+      token?: string;
     };
+    if (p.token !== undefined && conn.authRequired) {
+      conn.device = this.requireAuth().login(String(p.token), conn.remoteAddress ?? "unknown");
+    }
     conn.initialized = true;
     conn.client_info = { name: p.client?.name ?? "unknown", version: p.client?.version ?? "0.0.0" };
     setImmediate(() => conn.send(notif("initialized", { server: SERVER_NAME })));
     return {
-      server: { name: SERVER_NAME, version: SERVER_VERSION },
+      server: { name: SERVER_NAME, version: SERVER_VERSION, epoch: this.epoch, runner: this.runner.name },
+      auth:   { required: !!conn.authRequired, device: conn.device },
       capabilities: {
-        threads:  ["start", "resume", "fork"],
-        turns:    ["start", "steer", "interrupt"],
-        models:   AVAILABLE_MODELS.map(m => m.id),
-        skills:   BUILTIN_SKILLS.map(s => s.name),
+        auth:       this.auth ? ["pair", "devices", "revoke"] : [],
+        threads:    ["start", "resume", "fork", "update", "list", "delete", "archive", "subscribe", "unsubscribe", "replay", "rollback"],
+        turns:      ["start", "steer", "interrupt", "revert", "cancel"],
+        scheduler:  ["stats"],
+        usage:      ["thread", "summary"],
+        models:     this.models.map(m => m.id),
+        skills:     this.skillNames(),
+        profiles:   Object.keys(this.profiles),
+        workspaces: this.workspaces,
+        files:      ["list", "stat", "read", "search"],
+        git:        ["status", "diff", "stage", "commit", "branch/list", "checkout"],
       },
     };
   }
 
+  // ── auth/pair ──────────────────────────────────────────────────────────────
+
+  private authPair(params: unknown, conn: ConnectionState): unknown {
+    const p = (params ?? {}) as { pair_key?: string; device_name?: string };
+    const auth = this.requireAuth();
+    if (typeof p.pair_key !== "string") {
+      throw new RpcException(E.InvalidParams, "pair_key is required.");
+    }
+    const name = typeof p.device_name === "string" ? p.device_name : conn.client_info?.name ?? "";
+    const { device, token } = auth.pair(p.pair_key, name, conn.remoteAddress ?? "unknown");
+    conn.device = device;
+    return { ...device, token };
+  }
+
+  // ── auth/devices ───────────────────────────────────────────────────────────
+
+  private authDevices(conn: ConnectionState): unknown {
+    const auth = this.requireAuth();
+    return {
+      devices: auth.registry.list().map(d => ({ ...d, current: d.device_id === conn.device?.device_id })),
+      failed_attempts: auth.failedCount,
+    };
+  }
+
+  // ── auth/revoke ────────────────────────────────────────────────────────────
+
+  private authRevoke(params: unknown, conn: ConnectionState): unknown {
+    const p = (params ?? {}) as { device_id?: string };
+    const auth = this.requireAuth();
+    if (typeof p.device_id !== "string" || !p.device_id) {
+      throw new RpcException(E.InvalidParams, "device_id is required.");
+    }
+    const device = auth.registry.revoke(p.device_id);
+    if (!device) throw new RpcException(E.InvalidParams, `Unknown device: ${p.device_id}`);
+
+    // Its open connections lose access now
+    for (const c of this.connections) {
+      if (c.device?.device_id === device.device_id) this.dropDevice(c);
+    }
+    return { device_id: device.device_id, revoked: true };
+  }
+
+  /** Forget a revoked device on `conn`; the socket closes once the current response is out. */
+  private dropDevice(conn: ConnectionState): void {
+    conn.device = undefined;
+    setImmediate(() => conn.close?.(4403, "Device revoked"));
+  }
+
+  private requireAuth(): DeviceAuth {
+    if (!this.auth) {
+      throw new RpcException(E.InvalidRequest, "Device pairing is only available on the WebSocket transport.");
+    }
+    return this.auth;
+  }
+
+  // ── profile/list ───────────────────────────────────────────────────────────
+
+  private profileList(): unknown {
+    return {
+      // MCP server entries may hold credentials; clients only see their names
+      profiles: Object.entries(this.profiles).map(([name, p]) => ({
+        name,
+        description:          p.description,
+        model:                p.model,
+        permission_mode:      p.permission_mode,
+        append_system_prompt: p.append_system_prompt,
+        allowed_tools:        p.allowed_tools,
+        mcp_servers:          Object.keys(p.mcp_servers ?? {}),
+      })),
+      default_profile: this.defaultProfile,
+    };
+  }
+
+  // ── model/list ─────────────────────────────────────────────────────────────
+
+  private modelList(): unknown {
+    return {
+      models:         this.models,
+      default_model:  this.defaultModel && this.modelId(this.defaultModel),
+      fallback_model: this.fallbackModel && this.modelId(this.fallbackModel),
+    };
+  }
+
+  /** The catalog id for a client-supplied model name or alias; InvalidParams if there is none. */
+  private resolveModel(name: unknown, field = "model"): string {
+    const model = typeof name === "string" ? findModel(this.models, name) : undefined;
+    if (!model) {
+      const known = modelNames(this.models);
+      throw new RpcException(E.InvalidParams,
+        `Unknown ${field} ${JSON.stringify(name)}. Available: ${known.join(", ")}.`,
+        { field, model: name, available: known });
+    }
+    return model.id;
+  }
+
+  /** A model name from the config or an older thread, as the id to pass to the CLI. */
+  private modelId(name: string): string {
+    return findModel(this.models, name)?.id ?? name;
+  }
+
+  // ── skills/list ────────────────────────────────────────────────────────────
+
+  /**
+   * Tools, slash commands, subagents and skills available in `cwd`. Tools
+   * are the ones the CLI reported the last time a turn ran there (built-in
+   * catalog until then); the rest is read from the .claude directories.
+   */
+  private skillsList(params: unknown): unknown {
+    const p = (params ?? {}) as { cwd?: string };
+    return this.discover(this.allowedCwd(p.cwd !== undefined ? expandHome(p.cwd) : this.defaultCwd()));
+  }
+
+  private discover(cwd: string) {
+    const seen = this.workspaceTools.get(cwd);
+    const tools = seen
+      ? seen.tools.filter(t => !t.startsWith(`mcp__${MCP_SERVER_NAME}__`)).map(describeTool)
+      : BUILTIN_SKILLS;
+    return {
+      cwd,
+      tools,
+      tools_source:     seen ? "cli" : "builtin",
+      tools_checked_at: seen?.at,
+      ...scanExtensions(cwd, claudeUserDir()),
+    };
+  }
+
+  /** initialize's summary of skills/list for the default directory: names only. */
+  private skillNames() {
+    const all = this.discover(this.defaultCwd());
+    const names = (list: { name: string }[]) => list.map(e => e.name);
+    return {
+      tools:    names(all.tools),
+      commands: names(all.commands),
+      agents:   names(all.agents),
+      skills:   names(all.skills),
+    };
+  }
+
+  // ── app/list ───────────────────────────────────────────────────────────────
+
+  /**
+   * MCP servers and their tools. With `thread_id`: those the thread is
+   * configured with plus whatever its latest turn's CLI loaded (e.g. from
+   * the user's own CLI settings). Without: everything loaded by the latest
+   * turn of any thread, newest report per server.
+   */
+  private appList(params: unknown): unknown {
+    const p = (params ?? {}) as { thread_id?: string };
+    const thread = p.thread_id !== undefined ? this.getThread(p.thread_id) : undefined;
+    const inits = thread
+      ? [this.sessionInits.get(thread.id)].filter((i): i is SessionInit => !!i)
+      : [...this.sessionInits.values()].sort((a, b) => a.at - b.at);
+
+    const apps = new Map<string, { name: string; status: string; source: string; tools: string[]; checked_at?: number }>();
+    if (thread) {
+      const profile = this.profileOf(thread);
+      for (const name of Object.keys(profile?.mcp_servers ?? {})) {
+        apps.set(name, { name, status: "unknown", source: "profile", tools: [] });
+      }
+      for (const name of Object.keys(thread.mcp_servers ?? {})) {
+        apps.set(name, { name, status: "unknown", source: "thread", tools: [] });
+      }
+    }
+    for (const init of inits) {
+      for (const server of init.mcp_servers) {
+        if (server.name === MCP_SERVER_NAME) continue;   // our approval bridge
+        const prefix = `mcp__${server.name}__`;
+        apps.set(server.name, {
+          name:       server.name,
+          status:     server.status,
+          source:     apps.get(server.name)?.source ?? "cli",
+          tools:      init.tools.filter(t => t.startsWith(prefix)).map(t => t.slice(prefix.length)),
+          checked_at: init.at,
+        });
+      }
+    }
+    return { apps: [...apps.values()] };
+  }
+
+  // ── workspace/list ─────────────────────────────────────────────────────────
+
+  private workspaceList(): unknown {
+    return {
+      restricted: this.workspaces.length > 0,
+      workspaces: this.workspaces.map(root => ({
+        path:     root,
+        name:     path.basename(root) || root,
+        exists:   fs.existsSync(root),
+        projects: listProjects(root),
+      })),
+    };
+  }
+
+  // ── fs/* ──────────────────────────────────────────────────────────────────
+
+  // Read-only views of the thread's cwd; paths are checked in files.ts.
+
+  private fsList(params: unknown): Promise<unknown> {
+    const p = params as { thread_id: string; path?: string };
+    return listDir(this.fsRoot(p.thread_id), p.path);
+  }
+
+  private fsStat(params: unknown): Promise<unknown> {
+    const p = params as { thread_id: string; path: string };
+    return statPath(this.fsRoot(p.thread_id), p.path);
+  }
+
+  private fsRead(params: unknown): Promise<unknown> {
+    const p = params as { thread_id: string; path: string; offset?: number; length?: number };
+    if (typeof p.path !== "string") throw new RpcException(E.InvalidParams, "path is required.");
+    return readRange(this.fsRoot(p.thread_id), p.path, p.offset, p.length);
+  }
+
+  private fsSearch(params: unknown, signal: AbortSignal): Promise<unknown> {
+    const p = params as { thread_id: string } & SearchOptions;
+    return search(this.fsRoot(p.thread_id), p, signal);
+  }
+
+  /** The directory fs/* may read for a thread (which must still be an allowed workspace). */
+  private fsRoot(threadId: string): string {
+    return this.allowedCwd(this.getThread(threadId).cwd);
+  }
+
+  // ── git/* ─────────────────────────────────────────────────────────────────
+
+  private async gitStatus(params: unknown, signal: AbortSignal): Promise<unknown> {
+    const p = params as { thread_id: string };
+    return repoStatus(await this.gitRoot(this.getThread(p.thread_id)), signal);
+  }
+
+  private async gitDiff(params: unknown, signal: AbortSignal): Promise<unknown> {
+    const p = params as { thread_id: string; turn_id?: string; staged?: boolean; paths?: string[] };
+    const thread = this.getThread(p.thread_id);
+    const root = await this.gitRoot(thread);
+    const paths = p.paths !== undefined ? repoPaths(root, p.paths) : undefined;
+
+    if (p.turn_id === undefined) {
+      return { root, staged: !!p.staged, ...await diffWorktree(root, !!p.staged, paths, signal) };
+    }
+    // What one turn changed, from the checkpoints taken around it
+    const { turn } = this.findTurn(p.turn_id, thread.id);
+    if (!turn.checkpoint?.after) {
+      throw new RpcException(E.CheckpointUnavailable,
+        `Turn ${turn.id} has no workspace checkpoint (not a git repository, or still finishing).`);
+    }
+    return { root, turn_id: turn.id, ...await diffCommits(root, turn.checkpoint.before, turn.checkpoint.after, paths, signal) };
+  }
+
+  private async gitStage(params: unknown, signal: AbortSignal): Promise<unknown> {
+    const p = params as { thread_id: string; paths?: string[]; all?: boolean; unstage?: boolean };
+    const thread = this.getThread(p.thread_id);
+    const root = await this.gitRoot(thread);
+    if ((p.paths === undefined) === !p.all) {
+      throw new RpcException(E.InvalidParams, "Pass either paths or all: true.");
+    }
+    const paths = p.paths !== undefined ? repoPaths(root, p.paths) : null;
+
+    const operation = p.unstage ? "unstage" : "stage";
+    const command = (p.unstage ? "git reset -q HEAD -- " : "git add -A -- ") + (paths ?? ["."]).join(" ");
+    this.checkGitWrite(thread, command);
+    checkCancelled(signal);
+    await (p.unstage ? unstagePaths(root, paths) : stagePaths(root, paths));
+
+    this.recordGit(thread, { type: "git", operation, command, paths: paths ?? undefined });
+    return { operation, paths, status: await repoStatus(root) };
+  }
+
+  private async gitCommit(params: unknown, signal: AbortSignal): Promise<unknown> {
+    const p = params as { thread_id: string; message: string; all?: boolean };
+    const thread = this.getThread(p.thread_id);
+    checkText(p.message, "message");
+    const root = await this.gitRoot(thread);
+
+    const command = `git commit ${p.all ? "-a " : ""}-m ${JSON.stringify(p.message)}`;
+    this.checkGitWrite(thread, command);
+    checkCancelled(signal);
+    const info = await commitIndex(root, p.message, !!p.all);
+
+    this.recordGit(thread, { type: "git", operation: "commit", command, commit: info.commit, branch: info.branch });
+    return info;
+  }
+
+  private async gitBranchList(params: unknown, signal: AbortSignal): Promise<unknown> {
+    const p = params as { thread_id: string; remote?: boolean };
+    return listBranches(await this.gitRoot(this.getThread(p.thread_id)), !!p.remote, signal);
+  }
+
+  private async gitCheckout(params: unknown, signal: AbortSignal): Promise<unknown> {
+    const p = params as { thread_id: string; branch: string; create?: boolean; start_point?: string };
+    const thread = this.getThread(p.thread_id);
+    checkRefName(p.branch, "branch");
+    if (p.create && p.start_point !== undefined) checkRefName(p.start_point, "start_point");
+    const root = await this.gitRoot(thread);
+
+    const command = ["git switch", ...(p.create ? ["-c"] : []), p.branch, ...(p.create && p.start_point ? [p.start_point] : [])].join(" ");
+    this.checkGitWrite(thread, command);
+    checkCancelled(signal);
+    await switchBranch(root, p.branch, !!p.create, p.create ? p.start_point : undefined);
+
+    this.recordGit(thread, { type: "git", operation: "checkout", command, branch: p.branch });
+    return { branch: p.branch, status: await repoStatus(root) };
+  }
+
+  /**
+   * The repository containing the thread's cwd (which must still be an allowed
+   * workspace). git/* works on the whole repository, so with workspace roots
+   * it must lie inside one too: a workspace within a larger repository (say,
+   * dotfiles at ~) is not enough.
+   */
+  private async gitRoot(thread: Thread): Promise<string> {
+    const root = await requireRepo(this.allowedCwd(thread.cwd));
+    if (this.workspaces.length > 0 && !this.workspaces.some(w => resolveWithin(w, root))) {
+      throw new RpcException(E.WorkspaceNotAllowed,
+        `The repository at ${root} extends outside the allowed workspaces.`,
+        { cwd: thread.cwd, root, workspaces: this.workspaces });
+    }
+    return root;
+  }
+
+  /**
+   * Check a git write before running it. Writes wait for the agent to finish
+   * with the tree, and are allowed as far as the thread would let the agent
+   * run the same command: disallowed_tools always apply, and in dontAsk mode the command
+   * must be pre-approved by allowed_tools. In the other modes the client's
+   * request is itself the approval.
+   */
+  private checkGitWrite(thread: Thread, command: string): void {
+    if (thread.active_turn_id || this.rollingBack.has(thread.id) || this.scheduler.hasQueued(thread.id)) {
+      throw new RpcException(E.TurnBusy,
+        "Thread has an active or queued turn. Wait for it to finish before changing the repository.");
+    }
+    const denied = (rule: string | undefined, reason: string) => new RpcException(E.PermissionDenied,
+      `${command} is not allowed: ${reason}.`, { command, permission_mode: thread.permission_mode, rule });
+
+    const rule = thread.disallowed_tools?.find(r => bashRuleCovers(r, command));
+    if (rule) throw denied(rule, `the thread disallows "${rule}"`);
+    if (thread.permission_mode === "dontAsk") {
+      const allowed = [...(thread.allowed_tools ?? this.profileOf(thread)?.allowed_tools ?? []), ...(thread.always_allow ?? [])];
+      if (!allowed.some(r => bashRuleCovers(r, command))) {
+        throw denied(undefined, "the thread's permission mode is dontAsk and no allowed_tools rule covers it");
+      }
+    }
+  }
+
+  /** Record a git write in the thread's own items (it belongs to no turn). */
+  private recordGit(thread: Thread, item: GitItem): void {
+    const stored: StoredItem = { id: uuid(), created_at: Date.now(), item };
+    thread.items.push(stored);
+    this.store.appendThreadItem(thread, stored);
+    this.notify(thread.id, "item/created", { turn_id: null, item: stored });
+  }
+
+  /** thread/start without a cwd: the server's own directory if allowed, else the first root. */
+  private defaultCwd(): string {
+    const cwd = process.cwd();
+    if (this.workspaces.length === 0 || this.workspaces.some(root => resolveWithin(root, cwd))) return cwd;
+    return this.workspaces[0];
+  }
+
+  /**
+   * `cwd` made absolute, if threads may run there. With workspace roots
+   * configured it must lie inside one after resolving `..` and symlinks
+   * (the resolved path is returned); otherwise WorkspaceNotAllowed.
+   */
+  private allowedCwd(cwd: string): string {
+    const abs = path.resolve(cwd);
+    if (this.workspaces.length === 0) return abs;
+    for (const root of this.workspaces) {
+      const resolved = resolveWithin(root, abs);
+      if (resolved) return resolved;
+    }
+    throw new RpcException(E.WorkspaceNotAllowed,
+      `${cwd} is not inside an allowed workspace. See workspace/list.`,
+      { cwd, workspaces: this.workspaces });
+  }
+
+  /** Tool names allowed_tools / disallowed_tools may refer to: built-in or reported by the CLI anywhere. */
+  private knownTools(): string[] {
+    const names = new Set(BUILTIN_SKILLS.map(s => s.name));
+    for (const { tools } of this.workspaceTools.values()) {
+      for (const tool of tools) if (!tool.startsWith("mcp__")) names.add(tool);
+    }
+    return [...names];
+  }
+
+  /** The thread's profile, if it has one that is still configured. */
+  private profileOf(thread: Thread): Profile | undefined {
+    return thread.profile !== undefined && Object.hasOwn(this.profiles, thread.profile)
+      ? this.profiles[thread.profile]
+      : undefined;
+  }
+
   // ── thread/start ───────────────────────────────────────────────────────────
 
   private threadStart(params: unknown): unknown {
-    const p = (params ?? {}) as { cwd?: string; permission_mode?: PermissionMode };
-    let cwd = p.cwd ?? process.cwd();
-    // Expand ~ to the user's home directory (Node spawn doesn't do this)
-    if (cwd === "~") cwd = os.homedir();
-    else if (cwd.startsWith("~/")) cwd = os.homedir() + cwd.slice(1);
-    const thread = createThread(cwd, p.permission_mode ?? "default");
+    const p = (params ?? {}) as {
+      cwd?: string;
+      permission_mode?: PermissionMode;
+      budget_usd?: number;
+      profile?: string;
+      model?: string;
+      fallback_model?: string;
+      system_prompt?: string;
+      append_system_prompt?: string;
+      allowed_tools?: string[];
+      disallowed_tools?: string[];
+      mcp_servers?: Record<string, McpServerConfig>;
+    };
+    checkPermissionMode(p.permission_mode);
+    checkText(p.system_prompt, "system_prompt");
+    checkText(p.append_system_prompt, "append_system_prompt");
+    if (p.budget_usd !== undefined && (typeof p.budget_usd !== "number" || !(p.budget_usd >= 0))) {
+      throw new RpcException(E.InvalidParams, "budget_usd must be a non-negative number.");
+    }
+    // Clients may tighten the operator's per-thread cap, not raise it
+    const cap = this.budgets.thread_usd;
+    if (p.budget_usd !== undefined && cap !== undefined && p.budget_usd > cap) {
+      throw new RpcException(E.InvalidParams,
+        `budget_usd may be at most the server's thread budget of $${cap}.`, { budget_usd: p.budget_usd, thread_usd: cap });
+    }
+    const profileName = p.profile ?? this.defaultProfile;
+    if (profileName !== undefined && !Object.hasOwn(this.profiles, profileName)) {
+      const known = Object.keys(this.profiles);
+      throw new RpcException(E.InvalidParams,
+        `Unknown profile "${profileName}".` + (known.length ? ` Available: ${known.join(", ")}.` : " No profiles are configured."));
+    }
+    const profile = profileName !== undefined ? this.profiles[profileName] : undefined;
+    const allowedTools = p.allowed_tools !== undefined
+      ? checkToolRules(p.allowed_tools, "allowed_tools", this.knownTools()) : undefined;
+    const disallowedTools = p.disallowed_tools !== undefined
+      ? checkToolRules(p.disallowed_tools, "disallowed_tools", this.knownTools()) : undefined;
+    const mcpServers = p.mcp_servers !== undefined ? checkMcpServers(p.mcp_servers, this.allowClientMcpCommands) : undefined;
+    const model = p.model !== undefined ? this.resolveModel(p.model) : undefined;
+    const fallbackModel = p.fallback_model !== undefined ? this.resolveModel(p.fallback_model, "fallback_model") : undefined;
+    const cwd = this.allowedCwd(p.cwd !== undefined ? expandHome(p.cwd) : this.defaultCwd());
+    const thread = createThread(cwd, p.permission_mode ?? profile?.permission_mode ?? this.defaultPermissionMode);
+    thread.budget_usd = p.budget_usd;
+    thread.profile = profileName;
+    thread.model = model;
+    thread.fallback_model = fallbackModel;
+    thread.system_prompt = p.system_prompt;
+    thread.append_system_prompt = p.append_system_prompt;
+    thread.allowed_tools = allowedTools;
+    thread.disallowed_tools = disallowedTools;
+    thread.mcp_servers = mcpServers;
     this.threads.set(thread.id, thread);
-    return { thread_id: thread.id, created_at: thread.created_at };
+    this.store.saveThread(thread);
+    return { thread_id: thread.id, created_at: thread.created_at, profile: thread.profile, model: thread.model };
   }
 
   // ── thread/resume ──────────────────────────────────────────────────────────
@@ -178,9 +1158,14 @@ export class ClaudeAppServer {
       thread_id:       thread.id,
       created_at:      thread.created_at,
       cwd:             thread.cwd,
-      permission_mode: thread.permission_mode,
+      ...threadSettings(thread),
+      profile:         thread.profile,
       cli_session_id:  thread.cliSessionId,
+      forked_from:     thread.forked_from,
+      archived_at:     thread.archived_at,
+      always_allow:    thread.always_allow ?? [],
       turns:           thread.turns.map(serializeTurn),
+      items:           thread.items,
     };
   }
 
@@ -198,60 +1183,317 @@ export class ClaudeAppServer {
     // Create new thread that will fork the source session on its first turn
     const forked = createThread(src.cwd, src.permission_mode);
     forked.forkFrom = { cliSessionId: src.cliSessionId };
+    forked.forked_from = src.id;
+    forked.profile = src.profile;
+    forked.model = src.model;
+    forked.fallback_model = src.fallback_model;
+    forked.system_prompt = src.system_prompt;
+    forked.append_system_prompt = src.append_system_prompt;
+    forked.allowed_tools = src.allowed_tools && [...src.allowed_tools];
+    forked.disallowed_tools = src.disallowed_tools && [...src.disallowed_tools];
+    forked.mcp_servers = src.mcp_servers && { ...src.mcp_servers };
     this.threads.set(forked.id, forked);
+    this.store.saveThread(forked);
 
     return { thread_id: forked.id, forked_from: src.id, created_at: forked.created_at };
   }
 
-  // ── turn/start ─────────────────────────────────────────────────────────────
+  // ── thread/update ──────────────────────────────────────────────────────────
 
-  private async turnStart(params: unknown, conn: ConnectionState): Promise<unknown> {
-    const p = params as { thread_id: string; content: string; model?: string };
+  /**
+   * Change a thread's agent settings. They apply from the next turn; a
+   * running turn keeps the ones it started with. `null` clears a setting so
+   * the profile's or the server's default applies again.
+   */
+  private threadUpdate(params: unknown): unknown {
+    const p = params as {
+      thread_id: string;
+      permission_mode?: PermissionMode;
+      model?: string | null;
+      fallback_model?: string | null;
+      system_prompt?: string | null;
+      append_system_prompt?: string | null;
+      allowed_tools?: string[] | null;
+      disallowed_tools?: string[] | null;
+      mcp_servers?: Record<string, McpServerConfig> | null;
+    };
     const thread = this.getThread(p.thread_id);
 
-    if (thread.active_turn_id) {
-      throw new RpcException(E.TurnBusy, "Thread already has an active turn. Interrupt it first.");
+    // Validate everything before changing anything
+    checkPermissionMode(p.permission_mode);
+    for (const key of ["system_prompt", "append_system_prompt"] as const) {
+      checkText(p[key], key, true);
+    }
+    const model = (key: "model" | "fallback_model") =>
+      p[key] === undefined ? thread[key]
+        : p[key] === null ? undefined
+        : this.resolveModel(p[key], key);
+    const mainModel = model("model");
+    const fallbackModel = model("fallback_model");
+    const tools = (key: "allowed_tools" | "disallowed_tools") =>
+      p[key] === undefined ? thread[key]
+        : p[key] === null ? undefined
+        : checkToolRules(p[key], key, this.knownTools());
+    const allowedTools = tools("allowed_tools");
+    const disallowedTools = tools("disallowed_tools");
+    const mcpServers = p.mcp_servers === undefined ? thread.mcp_servers
+      : p.mcp_servers === null ? undefined
+      : checkMcpServers(p.mcp_servers, this.allowClientMcpCommands);
+
+    if (p.permission_mode !== undefined) thread.permission_mode = p.permission_mode;
+    thread.model = mainModel;
+    thread.fallback_model = fallbackModel;
+    if (p.system_prompt !== undefined) thread.system_prompt = p.system_prompt ?? undefined;
+    if (p.append_system_prompt !== undefined) thread.append_system_prompt = p.append_system_prompt ?? undefined;
+    thread.allowed_tools = allowedTools;
+    thread.disallowed_tools = disallowedTools;
+    thread.mcp_servers = mcpServers;
+    this.store.saveThread(thread);
+
+    const result = { thread_id: thread.id, ...threadSettings(thread) };
+    this.notify(thread.id, "thread/updated", result);
+    return result;
+  }
+
+  // ── thread/list ────────────────────────────────────────────────────────────
+
+  private threadList(params: unknown): unknown {
+    const p = (params ?? {}) as {
+      cwd?: string;
+      status?: ThreadStatus | ThreadStatus[];
+      forked_from?: string;
+      sort?: "last_activity" | "created";
+      limit?: number;
+      cursor?: string;
+    };
+
+    const statuses = p.status === undefined ? undefined
+      : Array.isArray(p.status) ? p.status : [p.status];
+    const sortKey = p.sort ?? "last_activity";
+    if (sortKey !== "last_activity" && sortKey !== "created") {
+      throw new RpcException(E.InvalidParams, `Unknown sort: ${String(sortKey)}`);
+    }
+    const limit = Math.min(Math.max(1, p.limit ?? LIST_DEFAULT_LIMIT), LIST_MAX_LIMIT);
+    const offset = p.cursor ? parseInt(p.cursor, 10) : 0;
+    if (!Number.isInteger(offset) || offset < 0) {
+      throw new RpcException(E.InvalidParams, `Invalid cursor: ${p.cursor}`);
+    }
+
+    if (p.cwd !== undefined && typeof p.cwd !== "string") {
+      throw new RpcException(E.InvalidParams, "cwd must be a string.");
+    }
+    // Resolved like thread/start's cwd, so "/repo/" and "~/repo" find /repo's threads
+    const cwd = p.cwd !== undefined ? path.resolve(expandHome(p.cwd)) : undefined;
+
+    const matches = [...this.threads.values()].filter(t => {
+      if (cwd !== undefined && path.resolve(t.cwd) !== cwd) return false;
+      if (p.forked_from !== undefined && t.forked_from !== p.forked_from) return false;
+      // Archived threads are hidden unless explicitly asked for
+      if (statuses) return statuses.includes(threadStatus(t));
+      return !t.archived_at;
+    });
+
+    const key = sortKey === "created" ? (t: Thread) => t.created_at : lastActivity;
+    matches.sort((a, b) => key(b) - key(a));   // newest first
+
+    const page = matches.slice(offset, offset + limit);
+    const next = offset + page.length;
+    return {
+      threads:     page.map(summarizeThread),
+      total:       matches.length,
+      next_cursor: next < matches.length ? String(next) : undefined,
+    };
+  }
+
+  // ── thread/delete ──────────────────────────────────────────────────────────
+
+  private async threadDelete(params: unknown): Promise<unknown> {
+    const p = params as { thread_id: string };
+    const thread = this.getThread(p.thread_id);
+    const busy = () => new RpcException(E.TurnBusy, "Thread has an active turn. Interrupt it before deleting.");
+
+    if (thread.active_turn_id) throw busy();
+    // An interrupted turn is still stopping: its process exits, then the turn
+    // is checkpointed and saved. Deleting before that would write it back.
+    await Promise.all(thread.turns.map(t => this.turnRuns.get(t)));
+    if (this.getThread(p.thread_id).active_turn_id) throw busy();
+    // Queued turns go with the thread
+    for (const turn of thread.turns) {
+      if (this.scheduler.cancel(turn.id)) this.cancelQueuedTurn(thread, turn);
+    }
+
+    this.threads.delete(thread.id);
+    this.subscribers.delete(thread.id);
+    this.streams.delete(thread.id);
+    this.sessionInits.delete(thread.id);
+    this.store.deleteThread(thread.id);
+    await deleteCheckpoints(thread.cwd, thread.id)
+      .catch((err: unknown) => this.log(`checkpoint cleanup failed: ${err}`));
+    return { thread_id: thread.id, deleted: true };
+  }
+
+  // ── thread/archive ─────────────────────────────────────────────────────────
+
+  private threadArchive(params: unknown): unknown {
+    const p = params as { thread_id: string; archived?: boolean };
+    const thread = this.getThread(p.thread_id);
+
+    // archived: false un-archives
+    thread.archived_at = p.archived === false ? undefined : (thread.archived_at ?? Date.now());
+    this.store.saveThread(thread);
+    return { thread_id: thread.id, archived: !!thread.archived_at, archived_at: thread.archived_at };
+  }
+
+  // ── thread/subscribe ───────────────────────────────────────────────────────
+
+  private threadSubscribe(params: unknown, conn: ConnectionState): unknown {
+    const p = params as { thread_id: string; after_seq?: number; epoch?: string };
+    const thread = this.getThread(p.thread_id);
+    // Reconnect: validate the replay before subscribing so a failure has no side effects
+    const missed = p.after_seq !== undefined
+      ? this.replayEvents(thread.id, p.after_seq, p.epoch)
+      : undefined;
+    this.subscribe(thread.id, conn);
+
+    // Joining mid-turn: hand over everything produced so far. The response
+    // goes out before any later notification, so nothing is missed.
+    const active = thread.active_turn_id
+      ? thread.turns.find(t => t.id === thread.active_turn_id)
+      : undefined;
+    return {
+      thread_id:   thread.id,
+      subscribed:  true,
+      epoch:       this.epoch,
+      last_seq:    this.streams.get(thread.id)?.seq ?? 0,
+      events:      missed,
+      active_turn: active ? serializeTurn(active) : null,
+      pending_approvals: [...this.pendingApprovals.values()]
+        .filter(a => a.thread === thread)
+        .map(serializeApproval),
+    };
+  }
+
+  // ── thread/unsubscribe ─────────────────────────────────────────────────────
+
+  private threadUnsubscribe(params: unknown, conn: ConnectionState): unknown {
+    const p = params as { thread_id: string };
+    const thread = this.getThread(p.thread_id);
+    const subs = this.subscribers.get(thread.id);
+    const removed = subs?.delete(conn) ?? false;
+    if (subs?.size === 0) this.subscribers.delete(thread.id);
+    return { thread_id: thread.id, subscribed: false, was_subscribed: removed };
+  }
+
+  // ── thread/replay ──────────────────────────────────────────────────────────
+
+  private threadReplay(params: unknown): unknown {
+    const p = params as { thread_id: string; after_seq: number; epoch?: string };
+    const thread = this.getThread(p.thread_id);
+    if (typeof p.after_seq !== "number" || !Number.isInteger(p.after_seq) || p.after_seq < 0) {
+      throw new RpcException(E.InvalidParams, "after_seq must be a non-negative integer.");
     }
+    return {
+      thread_id: thread.id,
+      epoch:     this.epoch,
+      last_seq:  this.streams.get(thread.id)?.seq ?? 0,
+      events:    this.replayEvents(thread.id, p.after_seq, p.epoch),
+    };
+  }
+
+  // ── turn/start ─────────────────────────────────────────────────────────────
 
-    const turn = createTurn(thread.id, p.content);
+  private async turnStart(params: unknown, conn: ConnectionState): Promise<unknown> {
+    const p = params as { thread_id: string; content: string | unknown[]; model?: string; queue?: boolean };
+    const thread = this.getThread(p.thread_id);
 
-    // Prepend any queued steer content from the last completed turn
-    if (turn.steer_queue.length > 0) {
-      turn.user_content = turn.steer_queue.join("\n\n") + "\n\n" + turn.user_content;
-      turn.steer_queue = [];
+    if ((thread.active_turn_id || this.scheduler.hasQueued(thread.id)) && !p.queue) {
+      throw new RpcException(E.TurnBusy,
+        "Thread already has an active turn. Interrupt it first, or pass queue: true to run after it.");
     }
+    if (this.rollingBack.has(thread.id)) {
+      throw new RpcException(E.TurnBusy, "Thread is being rolled back. Retry once it finishes.");
+    }
+    const model = p.model !== undefined ? this.resolveModel(p.model) : undefined;
+    const spent = exceeded(this.budgetStatus(thread, conn));
+    if (spent) throw budgetError(spent);
+    // Threads from before the workspace roots were set (or changed) may lie outside them
+    this.allowedCwd(thread.cwd);
+
+    const turn = createTurn(thread.id, normalizeContent(p.content, thread.cwd));
+    turn.status = "queued";
 
     thread.turns.push(turn);
-    thread.active_turn_id = turn.id;
+    this.store.saveTurn(turn);
+    this.turnOwners.set(turn, conn);
+    // The caller always sees the turn it started
+    this.subscribe(thread.id, conn);
+
+    const started = this.scheduler.submit({
+      turn_id:   turn.id,
+      thread_id: thread.id,
+      owner:     conn,
+      start:     () => this.beginTurn(thread, turn, model),
+    });
+    return started
+      ? { turn_id: turn.id, status: turn.status }
+      : { turn_id: turn.id, status: turn.status, position: this.scheduler.position(turn.id) };
+  }
 
-    setImmediate(() => {
-      conn.send(notif("turn/started", { turn_id: turn.id, thread_id: thread.id }));
-      this.runClaudeTurn(thread, turn, conn, p.model).catch((err: unknown) => {
-        turn.status = "error";
-        turn.error = String(err);
-        turn.completed_at = Date.now();
-        thread.active_turn_id = undefined;
-        conn.send(notif("turn/error", { turn_id: turn.id, error: String(err) }));
+  /** Called by the scheduler when a turn gets a slot. */
+  private beginTurn(thread: Thread, turn: Turn, model?: string): void {
+    // Budgets may have run out while the turn was queued
+    const spent = exceeded(this.budgetStatus(thread, this.turnOwners.get(turn)));
+    if (spent) {
+      turn.status = "error";
+      turn.error = budgetError(spent).message;
+      turn.completed_at = Date.now();
+      this.store.saveTurn(turn);
+      setImmediate(() => {
+        this.notify(thread.id, "turn/error", { turn_id: turn.id, thread_id: thread.id, error: turn.error });
+        this.scheduler.finish(turn.id);
       });
-    });
+      return;
+    }
 
-    return { turn_id: turn.id };
+    turn.status = "active";
+    thread.active_turn_id = turn.id;
+    this.store.saveTurn(turn);
+
+    const run = new Promise<void>((resolve) => setImmediate(resolve)).then(() => {
+      this.notify(thread.id, "turn/started", { turn_id: turn.id, thread_id: thread.id });
+      return this.runClaudeTurn(thread, turn, model);
+    }).catch((err: unknown) => {
+      turn.status = "error";
+      turn.error = String(err);
+      turn.completed_at = Date.now();
+      thread.active_turn_id = undefined;
+      this.store.saveTurn(turn);
+      this.notify(thread.id, "turn/error", { turn_id: turn.id, thread_id: thread.id, error: String(err) });
+    }).finally(() => this.scheduler.finish(turn.id));
+    this.turnRuns.set(turn, run);
   }
 
   // ── turn/steer ─────────────────────────────────────────────────────────────
 
   private turnSteer(params: unknown): unknown {
-    const p = params as { thread_id: string; content: string };
+    const p = params as { thread_id: string; content: string | unknown[] };
     const thread = this.getThread(p.thread_id);
 
-    // Queue for the next turn (active turn's queue, or thread-level queue)
-    if (thread.active_turn_id) {
-      const turn = thread.turns.find(t => t.id === thread.active_turn_id)!;
-      turn.steer_queue.push(p.content);
-      return { turn_id: turn.id, note: "queued: will be prepended to the next user message" };
+    if (!thread.active_turn_id) {
+      throw new RpcException(E.NoActiveTurn, "No active turn to steer.");
+    }
+    const input = normalizeContent(p.content, thread.cwd);
+
+    const turn = thread.turns.find(t => t.id === thread.active_turn_id)!;
+    // Once stdin is closed the agent is wrapping up and can't take more input
+    if (!turn.process || !turn.process.stdin?.writable) {
+      throw new RpcException(E.NoActiveTurn,
+        "The active turn is finishing and can no longer be steered. Send a new turn/start.");
     }
 
-    throw new RpcException(E.NoActiveTurn, "No active turn to steer.");
+    this.writeUserMessage(turn, input, true);
+    // Delivery is confirmed by turn/steered once the agent echoes the message
+    return { turn_id: turn.id, status: "sent" };
   }
 
   // ── turn/interrupt ─────────────────────────────────────────────────────────
@@ -265,28 +1507,196 @@ export class ClaudeAppServer {
     }
 
     const turn = thread.turns.find(t => t.id === thread.active_turn_id)!;
+    // Kills the claude subprocess if it's running (SIGTERM, then SIGKILL)
     turn.abortController.abort();
 
-    // SIGTERM the claude subprocess if it's running
-    if (turn.process) {
-      turn.process.kill("SIGTERM");
-    }
-
     turn.status = "interrupted";
     turn.completed_at = Date.now();
     thread.active_turn_id = undefined;
+    this.store.saveTurn(turn);
 
     return { turn_id: turn.id, status: "interrupted" };
   }
 
+  // ── turn/revert ────────────────────────────────────────────────────────────
+
+  private async turnRevert(params: unknown, signal: AbortSignal): Promise<unknown> {
+    const p = params as { turn_id: string; thread_id?: string };
+    const { thread, index } = this.findTurn(p.turn_id, p.thread_id);
+
+    // Undo this turn and everything after it
+    return this.rollbackThread(thread, index, signal);
+  }
+
+  // ── turn/cancel ────────────────────────────────────────────────────────────
+
+  private turnCancel(params: unknown): unknown {
+    const p = params as { turn_id: string; thread_id?: string };
+    const { thread, turn } = this.findTurn(p.turn_id, p.thread_id);
+
+    if (!this.scheduler.cancel(turn.id)) {
+      throw new RpcException(E.InvalidParams,
+        `Turn ${turn.id} is not queued (status: ${turn.status}). Use turn/interrupt to stop a running turn.`);
+    }
+    this.cancelQueuedTurn(thread, turn);
+    return { turn_id: turn.id, status: turn.status };
+  }
+
+  /** Settle a turn already removed from the scheduler queue. */
+  private cancelQueuedTurn(thread: Thread, turn: Turn): void {
+    turn.status = "cancelled";
+    turn.completed_at = Date.now();
+    this.store.saveTurn(turn);
+    this.notify(thread.id, "turn/cancelled", { turn_id: turn.id, thread_id: thread.id });
+  }
+
+  // ── thread/rollback ────────────────────────────────────────────────────────
+
+  private async threadRollback(params: unknown, signal: AbortSignal): Promise<unknown> {
+    const p = params as { thread_id: string; to_turn_id: string };
+    const thread = this.getThread(p.thread_id);
+    const index = thread.turns.findIndex(t => t.id === p.to_turn_id);
+    if (index < 0) {
+      throw new RpcException(E.InvalidParams, `Turn not found in thread: ${p.to_turn_id}`);
+    }
+    if (thread.turns[index].reverted_at) {
+      throw new RpcException(E.InvalidParams, `Turn ${p.to_turn_id} has already been reverted.`);
+    }
+
+    // Keep to_turn_id, undo everything after it
+    return this.rollbackThread(thread, index + 1, signal);
+  }
+
+  /**
+   * Undo every non-reverted turn from `keep` onwards: restore the files they
+   * changed and point the thread at the CLI session as of the last kept turn.
+   * Cancelling stops it until the files are about to be restored.
+   */
+  private async rollbackThread(thread: Thread, keep: number, signal: AbortSignal): Promise<unknown> {
+    if (thread.active_turn_id || this.rollingBack.has(thread.id) || this.scheduler.hasQueued(thread.id)) {
+      throw new RpcException(E.TurnBusy,
+        "Thread has an active or queued turn. Interrupt or cancel it before rolling back.");
+    }
+
+    // Cancelled turns never ran: nothing to undo, no session to go back to
+    const ran = (t: Turn) => !t.reverted_at && t.status !== "cancelled";
+    const undo = thread.turns.slice(keep).filter(ran);
+    const base = thread.turns.slice(0, keep).filter(ran).pop();
+    if (base && !base.cli_session_id) {
+      throw new RpcException(E.CheckpointUnavailable,
+        `Turn ${base.id} has no recorded session to roll back to.`);
+    }
+    const missing = undo.find(t => !t.checkpoint?.after);
+    if (missing) {
+      throw new RpcException(E.CheckpointUnavailable,
+        `Turn ${missing.id} has no workspace checkpoint (not a git repository, or still finishing).`);
+    }
+
+    this.rollingBack.add(thread.id);
+    try {
+      let restored: string[] = [];
+      if (undo.length > 0) {
+        const steps: CheckpointPair[] = undo.map(t => ({ before: t.checkpoint!.before, after: t.checkpoint!.after! }));
+        const plan = await planRestore(thread.cwd, steps);
+        if (plan.conflicts.length > 0) {
+          throw new RpcException(E.CheckpointConflict,
+            `Files were changed outside the agent since the checkpoint: ${plan.conflicts.join(", ")}`,
+            { paths: plan.conflicts });
+        }
+        checkCancelled(signal);
+        restored = await applyRestore(plan);
+      }
+
+      const now = Date.now();
+      for (const t of undo) {
+        t.reverted_at = now;
+        this.store.saveTurn(t);
+      }
+      // The next turn resumes (and forks) the session as it was after `base`
+      thread.cliSessionId = base?.cli_session_id;
+      this.store.saveThread(thread);
+
+      const result = {
+        thread_id:         thread.id,
+        reverted_turn_ids: undo.map(t => t.id),
+        restored_paths:    restored,
+        cli_session_id:    thread.cliSessionId,
+      };
+      this.notify(thread.id, "thread/rolled_back", result);
+      return result;
+    } finally {
+      this.rollingBack.delete(thread.id);
+    }
+  }
+
+  // ── thread/usage ───────────────────────────────────────────────────────────
+
+  private threadUsage(params: unknown): unknown {
+    const p = params as { thread_id: string };
+    const thread = this.getThread(p.thread_id);
+    return {
+      thread_id:  thread.id,
+      usage:      totalUsage(thread.turns),
+      budget_usd: thread.budget_usd ?? this.budgets.thread_usd,
+      turns: thread.turns.map(t => ({
+        turn_id:    t.id,
+        status:     t.status,
+        created_at: t.created_at,
+        usage:      t.usage,
+      })),
+    };
+  }
+
+  // ── usage/summary ──────────────────────────────────────────────────────────
+
+  private usageSummary(params: unknown, conn: ConnectionState): unknown {
+    const p = (params ?? {}) as { since?: number };
+    const since = p.since ?? 0;
+    const threads = [...this.threads.values()];
+    const turns = threads.flatMap(t => t.turns.filter(u => u.created_at >= since));
+    return {
+      usage:        totalUsage(turns),
+      turn_count:   turns.length,
+      thread_count: threads.filter(t => t.turns.some(u => u.created_at >= since)).length,
+      today:        { day: this.daily.day, cost_usd: this.dailySpend() },
+      connection:   { cost_usd: this.connectionSpend.get(conn) ?? 0 },
+      budgets:      this.budgets,
+    };
+  }
+
   // ── approval/respond ───────────────────────────────────────────────────────
 
   private approvalRespond(params: unknown): unknown {
     const p = params as {
+      request_id?: string;
+      decision?: ApprovalDecision;
       thread_id: string;
       approved: boolean;
       permission_mode?: PermissionMode;
     };
+
+    // Answer to an in-flight approval/requested
+    if (p.request_id !== undefined) {
+      if (!p.decision || !APPROVAL_DECISIONS.includes(p.decision)) {
+        throw new RpcException(E.InvalidParams,
+          `decision must be one of: ${APPROVAL_DECISIONS.join(", ")}`);
+      }
+      const pending = this.resolveApproval(p.request_id, p.decision);
+      if (!pending) {
+        throw new RpcException(E.ApprovalNotFound,
+          `No pending approval request: ${p.request_id}`);
+      }
+      return {
+        request_id:   p.request_id,
+        thread_id:    pending.thread.id,
+        turn_id:      pending.turn.id,
+        decision:     p.decision,
+        always_allow: pending.thread.always_allow ?? [],
+      };
+    }
+
+    // Legacy form: change the thread's permission mode for subsequent turns
+    checkPermissionMode(p.permission_mode);
     const thread = this.getThread(p.thread_id);
 
     if (p.approved) {
@@ -294,6 +1704,7 @@ export class ClaudeAppServer {
       // Caller can specify exactly which mode; default to "acceptEdits" which
       // auto-approves file writes/edits but still guards arbitrary shell commands.
       thread.permission_mode = p.permission_mode ?? "acceptEdits";
+      this.store.saveThread(thread);
     }
 
     return {
@@ -313,25 +1724,62 @@ export class ClaudeAppServer {
   private async runClaudeTurn(
     thread: Thread,
     turn: Turn,
-    conn: ConnectionState,
     model?: string,
   ): Promise<void> {
-    const args = this.buildClaudeArgs(thread, model);
-    this.log(`spawn: ${this.claudePath} ${args.join(" ")}`);
-    this.log(`cwd: ${thread.cwd}`);
-
-    const proc = spawn(this.claudePath, args, {
-      cwd:   thread.cwd,
-      stdio: ["pipe", "pipe", "pipe"],
-      env:   { ...process.env, CLAUDECODE: undefined } as NodeJS.ProcessEnv,
+    await this.approvals.start();
+    await this.captureCheckpoint(thread, turn, "before");
+    const route = this.approvals.register((prompt) => this.requestApproval(thread, turn, prompt));
+    try {
+      await this.runClaudeProcess(thread, turn, route.mcpConfig, model);
+    } finally {
+      route.dispose();
+      for (const pending of [...this.pendingApprovals.values()]) {
+        if (pending.turn === turn) this.resolveApproval(pending.request_id, "deny", "Turn ended before approval.");
+      }
+    }
+  }
+
+  private async runClaudeProcess(
+    thread: Thread,
+    turn: Turn,
+    mcpConfig: string,
+    model?: string,
+  ): Promise<void> {
+    // Let the CLI stop itself before the tightest budget runs out
+    const owner = this.turnOwners.get(turn);
+    const maxBudgetUsd = headroom(this.budgetStatus(thread, owner));
+    const profile = this.profileOf(thread);
+    const chosen = model ?? thread.model ?? profile?.model ?? this.defaultModel;
+    const modelId = chosen && this.modelId(chosen);
+    const fallback = thread.fallback_model ?? this.fallbackModel;
+    const fallbackId = fallback && this.modelId(fallback);
+    const proc = this.runner.start({
+      threadId:           thread.id,
+      turnId:             turn.id,
+      cwd:                thread.cwd,
+      permissionMode:     thread.permission_mode,
+      session:            this.sessionSpec(thread),
+      mcpConfig:          withMcpServers(mcpConfig, { ...profile?.mcp_servers, ...thread.mcp_servers }),
+      model:              modelId,
+      fallbackModel:      fallbackId !== modelId ? fallbackId : undefined,
+      maxBudgetUsd,
+      systemPrompt:       thread.system_prompt,
+      appendSystemPrompt: joinPrompts(profile?.append_system_prompt, thread.append_system_prompt, this.appendSystemPrompt),
+      allowedTools:       thread.allowed_tools ?? profile?.allowed_tools,
+      disallowedTools:    thread.disallowed_tools,
     });
     turn.process = proc;
+    this.children.add(proc);
 
     // Register exit/error promise BEFORE reading stdout so we never miss
     // early events (e.g. spawn failures where 'error' fires immediately).
     let spawnError: Error | undefined;
     const exitPromise = new Promise<number | null>((resolve) => {
-      proc.on("exit", (code) => { this.log(`exit code: ${code}`); resolve(code); });
+      proc.on("exit", (code) => {
+        this.log(`exit code: ${code}`);
+        this.children.delete(proc);
+        resolve(code);
+      });
       proc.on("error", (err: Error) => {
         this.log(`proc error: ${err}`);
         spawnError = err;
@@ -339,14 +1787,18 @@ export class ClaudeAppServer {
       });
     });
 
-    // Write user content to stdin, then close it
-    const stdinContent = turn.user_content;
-    this.log(`stdin: ${JSON.stringify(stdinContent)}`);
+    // Send the user content as the first stream-json message; stdin stays
+    // open for turn/steer until every message has produced a result.
+    proc.stdin.on("error", (err) => this.log(`stdin error: ${err}`));
+    const input = turn.input ?? { blocks: turn.content ?? [], claude: [{ type: "text", text: turn.user_content }] };
+    turn.input = undefined;
     try {
-      proc.stdin.write(stdinContent, "utf-8");
-      proc.stdin.end();
-    } catch {
-      // stdin may be unusable if spawn failed; ignore
+      this.writeUserMessage(turn, input, false);
+    } catch (err) {
+      // Without its message the agent would wait forever; the turn fails
+      this.log(`stdin write failed: ${err}`);
+      await terminate(proc, this.killGraceMs);
+      throw err;
     }
 
     // Capture stderr for error reporting
@@ -357,10 +1809,26 @@ export class ClaudeAppServer {
       this.log(`stderr: ${text.trimEnd()}`);
     });
 
-    // Abort → kill the subprocess
-    turn.abortController.signal.addEventListener("abort", () => {
-      proc.kill("SIGTERM");
-    }, { once: true });
+    // Abort → kill the subprocess (the turn may have been interrupted before it spawned)
+    const kill = () => { terminate(proc, this.killGraceMs); };
+    if (turn.abortController.signal.aborted) kill();
+    else turn.abortController.signal.addEventListener("abort", kill, { once: true });
+
+    const watchdog = new Watchdog({
+      turnTimeoutMs: this.turnTimeoutMs,
+      idleTimeoutMs: this.idleTimeoutMs,
+      // The CLI is silent while it waits for approval/respond
+      shouldWait: () => [...this.pendingApprovals.values()].some(a => a.turn === turn),
+      onTimeout: (kind) => {
+        if (turn.status !== "active") return;
+        turn.status = "timeout";
+        turn.error = kind === "turn"
+          ? `Turn exceeded the ${this.turnTimeoutMs / 1000}s time limit.`
+          : `No output from claude for ${this.idleTimeoutMs / 1000}s.`;
+        this.log(`timeout (${kind}): ${turn.id}`);
+        turn.abortController.abort();
+      },
+    });
 
     // Parse stdout as NDJSON events
     const rl = readline.createInterface({ input: proc.stdout, terminal: false });
@@ -368,20 +1836,29 @@ export class ClaudeAppServer {
     // Track partial message text to compute deltas
     const partialText = new Map<string, string>();   // messageId → accumulated text
     const partialThink = new Map<string, string>();  // messageId → accumulated thinking
+    const activity = new ToolActivity(thread.cwd);   // tool_use ↔ tool_result correlation
 
-    for await (const line of rl) {
-      const trimmed = line.trim();
-      if (!trimmed) continue;
-      this.log(`stdout: ${trimmed}`);
+    let exitCode: number | null;
+    try {
+      for await (const line of rl) {
+        const trimmed = line.trim();
+        if (!trimmed) continue;
+        this.log(`stdout: ${trimmed}`);
+        watchdog.touch();
 
-      let event: ClaudeStreamEvent;
-      try { event = JSON.parse(trimmed) as ClaudeStreamEvent; } catch { continue; }
+        let event: ClaudeStreamEvent;
+        try { event = JSON.parse(trimmed) as ClaudeStreamEvent; } catch { continue; }
 
-      this.processClaudeEvent(event, thread, turn, conn, partialText, partialThink);
-    }
+        this.processClaudeEvent(event, thread, turn, partialText, partialThink, activity);
+      }
 
-    // Wait for process to exit (listeners already registered above)
-    const exitCode = await exitPromise;
+      // Wait for process to exit (listeners already registered above)
+      exitCode = await exitPromise;
+    } finally {
+      watchdog.stop();
+    }
+    turn.cli_session_id = thread.cliSessionId;
+    await this.captureCheckpoint(thread, turn, "after");
 
     // Treat 0 and 130 (SIGINT) as OK; spawn errors and non-zero exits are failures
     const aborted = turn.abortController.signal.aborted;
@@ -398,44 +1875,53 @@ export class ClaudeAppServer {
       );
     }
 
-    turn.status       = aborted ? "interrupted" : "completed";
-    turn.completed_at = Date.now();
+    // turn/interrupt (or an error result) may already have settled the status
+    if (turn.status === "active") turn.status = aborted ? "interrupted" : "completed";
+    turn.completed_at = turn.completed_at ?? Date.now();
     thread.active_turn_id = undefined;
+    this.store.saveTurn(turn);
 
-    conn.send(notif("turn/completed", {
+    this.notify(thread.id, "turn/completed", {
       turn_id:      turn.id,
       thread_id:    thread.id,
       status:       turn.status,
       items_count:  turn.items.length,
       completed_at: turn.completed_at,
-    }));
+      files_changed: filesChanged(turn),
+      usage:        turn.usage,
+      error:        turn.error,
+    });
   }
 
-  // ── Build claude args ──────────────────────────────────────────────────────
-
-  private buildClaudeArgs(thread: Thread, model?: string): string[] {
-    const args = [
-      "--print",
-      "--output-format", "stream-json",
-      "--verbose",
-      "--include-partial-messages",
-      "--permission-mode", thread.permission_mode,
-    ];
+  /** Record a workspace checkpoint on the turn; failures only cost undo support. */
+  private async captureCheckpoint(thread: Thread, turn: Turn, phase: "before" | "after"): Promise<void> {
+    if (phase === "after" && !turn.checkpoint) return;
+    try {
+      const commit = await createCheckpoint(thread.cwd, `${thread.id}/${turn.id}-${phase}`);
+      if (!commit) return;   // not a git workspace
+      if (phase === "before") turn.checkpoint = { before: commit };
+      else turn.checkpoint!.after = commit;
+      this.store.saveTurn(turn);
+    } catch (err) {
+      this.log(`checkpoint (${phase}) failed: ${err}`);
+    }
+  }
 
-    if (model) args.push("--model", model);
+  // ── Session to continue ────────────────────────────────────────────────────
 
+  private sessionSpec(thread: Thread): SessionSpec {
     if (thread.forkFrom && !thread.cliSessionId) {
       // First turn of a forked thread: resume source and fork
-      args.push("--resume", thread.forkFrom.cliSessionId, "--fork-session");
-    } else if (!thread.cliSessionId) {
+      return { mode: "resume", sessionId: thread.forkFrom.cliSessionId, fork: true };
+    }
+    if (!thread.cliSessionId) {
       // First turn of a brand-new thread: create session with our thread id
-      args.push("--session-id", thread.id);
-    } else {
-      // Subsequent turns: resume the existing session
-      args.push("--resume", thread.cliSessionId);
+      // (a thread rolled back to the start needs a fresh one)
+      return { mode: "new", sessionId: thread.turns.some(t => t.cli_session_id) ? uuid() : thread.id };
     }
-
-    return args;
+    // Subsequent turns: resume and fork, leaving each turn's session
+    // intact for thread/rollback
+    return { mode: "resume", sessionId: thread.cliSessionId, fork: true };
   }
 
   // ── Process a single stream-json event ────────────────────────────────────
@@ -444,9 +1930,9 @@ export class ClaudeAppServer {
     event: ClaudeStreamEvent,
     thread: Thread,
     turn: Turn,
-    conn: ConnectionState,
     partialText:  Map<string, string>,
     partialThink: Map<string, string>,
+    activity:     ToolActivity,
   ): void {
     switch (event.type) {
 
@@ -454,6 +1940,19 @@ export class ClaudeAppServer {
       case "system": {
         if (event.subtype === "init" && event.session_id) {
           thread.cliSessionId = event.session_id;
+          this.store.saveThread(thread);
+        }
+        if (event.subtype === "init") {
+          if (event.model) {
+            turn.model = event.model;
+            this.store.saveTurn(turn);
+          }
+          if (event.tools) this.workspaceTools.set(thread.cwd, { at: Date.now(), tools: event.tools });
+          this.sessionInits.set(thread.id, {
+            at:          Date.now(),
+            tools:       event.tools ?? [],
+            mcp_servers: event.mcp_servers ?? [],
+          });
         }
         break;
       }
@@ -472,10 +1971,10 @@ export class ClaudeAppServer {
 
             if (delta) {
               // Stream delta to client
-              conn.send(notif("item/progress", {
+              this.notify(thread.id, "item/progress", {
                 turn_id: turn.id,
                 delta:   { type: "text", text: delta },
-              }));
+              });
               partialText.set(msgId, block.text);
             }
 
@@ -485,8 +1984,7 @@ export class ClaudeAppServer {
                 id: uuid(), created_at: Date.now(),
                 item: { type: "text", text: block.text },
               };
-              turn.items.push(item);
-              conn.send(notif("item/created", { turn_id: turn.id, item }));
+              this.addItem(turn, item);
               partialText.delete(msgId);
             }
 
@@ -494,20 +1992,20 @@ export class ClaudeAppServer {
             const prevThink  = partialThink.get(msgId) ?? "";
             const thinkDelta = block.thinking.slice(prevThink.length);
             if (thinkDelta) {
-              conn.send(notif("item/progress", {
+              this.notify(thread.id, "item/progress", {
                 turn_id: turn.id,
                 delta:   { type: "thinking", thinking: thinkDelta },
-              }));
+              });
             }
             const item: StoredItem = {
               id: uuid(), created_at: Date.now(),
               item: { type: "thinking", thinking: block.thinking },
             };
-            turn.items.push(item);
-            conn.send(notif("item/created", { turn_id: turn.id, item }));
+            this.addItem(turn, item);
             partialThink.delete(msgId);
 
           } else if (block.type === "tool_use" && !partial) {
+            activity.onToolUse(block.id, block.name, block.input);
             const item: StoredItem = {
               id: uuid(), created_at: Date.now(),
               item: {
@@ -517,16 +2015,24 @@ export class ClaudeAppServer {
                 input: block.input,
               },
             };
-            turn.items.push(item);
-            conn.send(notif("item/created", { turn_id: turn.id, item }));
+            this.addItem(turn, item);
           }
         }
         break;
       }
 
-      // ── user message (tool results) ──────────────────────────────────────
+      // ── user message (tool results, echoed input) ────────────────────────
       case "user": {
-        for (const block of (event.message?.content ?? [])) {
+        const rawContent = event.message?.content;
+        // Anything but tool results is our own stdin message echoed back
+        const isEcho = typeof rawContent === "string"
+          || (rawContent ?? []).some(b => b.type !== "tool_result");
+        if (isEcho) {
+          this.acknowledgeInput(thread, turn);
+          break;
+        }
+
+        for (const block of (Array.isArray(rawContent) ? rawContent : [])) {
           if (block.type === "tool_result") {
             const rawContent = block.content;
             const content = Array.isArray(rawContent)
@@ -542,8 +2048,13 @@ export class ClaudeAppServer {
                 is_error:    !!block.is_error,
               },
             };
-            turn.items.push(item);
-            conn.send(notif("item/created", { turn_id: turn.id, item }));
+            this.addItem(turn, item);
+
+            // file_change / command_output derived from the tool call
+            const derived = activity.onToolResult(block.tool_use_id, content, !!block.is_error, event.tool_use_result);
+            for (const d of derived) {
+              this.addItem(turn, { id: uuid(), created_at: Date.now(), item: d });
+            }
           }
         }
         break;
@@ -552,35 +2063,251 @@ export class ClaudeAppServer {
       // ── result (turn complete) ───────────────────────────────────────────
       case "result": {
         // session_id may be updated (e.g. after a fork)
-        if (event.session_id) thread.cliSessionId = event.session_id;
+        if (event.session_id && event.session_id !== thread.cliSessionId) {
+          thread.cliSessionId = event.session_id;
+          this.store.saveThread(thread);
+        }
 
         if (event.subtype === "error") {
           turn.status = "error";
           turn.error  = event.error ?? "unknown error";
         }
 
+        this.recordUsage(thread, turn, event);
+
+        // Every message we wrote has been answered → let the CLI exit
+        turn.awaiting_results = Math.max(0, turn.awaiting_results - 1);
+        if (turn.awaiting_results === 0) turn.process?.stdin?.end();
+
         // Forward permission denials so the client can show approval UI
         if (event.permission_denials && event.permission_denials.length > 0) {
-          conn.send(notif("turn/permission_denied", {
+          this.notify(thread.id, "turn/permission_denied", {
             turn_id:    turn.id,
             thread_id:  thread.id,
             denials:    event.permission_denials,
-          }));
+          });
         }
         break;
       }
     }
   }
 
+  // ── Usage and budgets ─────────────────────────────────────────────────────
+
+  /** Budgets that apply to a turn on `thread` started by `conn`. */
+  private budgetStatus(thread: Thread, conn?: ConnectionState): BudgetStatus[] {
+    const statuses: BudgetStatus[] = [];
+    const threadLimit = thread.budget_usd ?? this.budgets.thread_usd;
+    if (threadLimit !== undefined) {
+      statuses.push({ scope: "thread", limit_usd: threadLimit, spent_usd: totalUsage(thread.turns).cost_usd });
+    }
+    if (conn && this.budgets.connection_usd !== undefined) {
+      statuses.push({ scope: "connection", limit_usd: this.budgets.connection_usd, spent_usd: this.connectionSpend.get(conn) ?? 0 });
+    }
+    if (this.budgets.daily_usd !== undefined) {
+      statuses.push({ scope: "daily", limit_usd: this.budgets.daily_usd, spent_usd: this.dailySpend() });
+    }
+    return statuses;
+  }
+
+  private dailySpend(): number {
+    const today = dayKey();
+    if (this.daily.day !== today) this.daily = { day: today, cost_usd: 0 };
+    return this.daily.cost_usd;
+  }
+
+  /** Fold a result event into the turn's usage, charge it, and stop the turn if it is over budget. */
+  private recordUsage(thread: Thread, turn: Turn, event: Extract<ClaudeStreamEvent, { type: "result" }>): void {
+    const before = turn.usage ?? emptyUsage();
+    turn.usage = applyResult(before, event.usage, event.total_cost_usd, event.cost_usd);
+    this.store.saveTurn(turn);
+
+    const delta = turn.usage.cost_usd - before.cost_usd;
+    const owner = this.turnOwners.get(turn);
+    if (owner) this.connectionSpend.set(owner, (this.connectionSpend.get(owner) ?? 0) + delta);
+    this.dailySpend();
+    this.daily.cost_usd += delta;
+
+    const statuses = this.budgetStatus(thread, owner);
+    // The CLI enforces --max-budget-usd itself; blame the tightest budget
+    const over = exceeded(statuses) ?? (event.subtype === "error_max_budget_usd"
+      ? [...statuses].sort((a, b) => (a.limit_usd - a.spent_usd) - (b.limit_usd - b.spent_usd))[0]
+      : undefined);
+    if (!over || turn.status !== "active") return;
+
+    this.notify(thread.id, "turn/budget_exceeded", {
+      turn_id:   turn.id,
+      thread_id: thread.id,
+      ...over,
+    });
+    // This result finished the turn's last message: nothing left to cut off
+    if (event.subtype !== "error_max_budget_usd" && turn.awaiting_results <= 1) return;
+
+    turn.status = "interrupted";
+    turn.error  = budgetError(over).message;
+    turn.abortController.abort();   // kills the subprocess
+  }
+
+  // ── stdin (stream-json input) ─────────────────────────────────────────────
+
+  /** Throws if stdin can't take the message; the caller decides what that means for the turn. */
+  private writeUserMessage(turn: Turn, input: UserMessage, steer: boolean): void {
+    const line = JSON.stringify({
+      type: "user",
+      message: { role: "user", content: input.claude },
+    });
+    this.log(`stdin: ${line.slice(0, 1000)}`);
+    turn.process?.stdin?.write(line + "\n", "utf-8");
+    turn.pending_input.push({ content: input.blocks, steer });
+    turn.awaiting_results++;
+  }
+
+  /** The agent echoed (i.e. received) the oldest pending stdin message. */
+  private acknowledgeInput(thread: Thread, turn: Turn): void {
+    const input = turn.pending_input.shift();
+    if (!input?.steer) return;   // the turn's own user content
+
+    const item: StoredItem = {
+      id: uuid(), created_at: Date.now(),
+      item: { type: "steer", text: contentText(input.content), content: input.content },
+    };
+    this.addItem(turn, item);
+    this.notify(thread.id, "turn/steered", {
+      turn_id:   turn.id,
+      thread_id: thread.id,
+      item_id:   item.id,
+      content:   input.content,
+    });
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────
+  // Approvals
+  // ─────────────────────────────────────────────────────────────────────────
+
+  /** Called by the approval bridge; resolves once the client (or the timeout) decides. */
+  private requestApproval(
+    thread: Thread,
+    turn: Turn,
+    prompt: ApprovalPrompt,
+  ): Promise<PromptResult> {
+    if (thread.always_allow?.includes(approvalRule(prompt))) {
+      this.log(`auto-approved ${prompt.tool_name} (always_allow)`);
+      return Promise.resolve({ behavior: "allow", updatedInput: prompt.input });
+    }
+
+    const request_id = uuid();
+    return new Promise<PromptResult>((resolve) => {
+      const timer = setTimeout(() => {
+        this.resolveApproval(request_id, "deny", "Approval request timed out.");
+      }, this.approvalTimeoutMs);
+      const pending: PendingApproval = {
+        request_id, thread, turn, prompt, timer, resolve,
+        expires_at: Date.now() + this.approvalTimeoutMs,
+      };
+      this.pendingApprovals.set(request_id, pending);
+      this.notify(thread.id, "approval/requested", serializeApproval(pending));
+    });
+  }
+
+  /** Settle a pending approval. Returns undefined if it is unknown or already settled. */
+  private resolveApproval(
+    requestId: string,
+    decision: ApprovalDecision,
+    reason?: string,
+  ): PendingApproval | undefined {
+    const pending = this.pendingApprovals.get(requestId);
+    if (!pending) return undefined;
+    this.pendingApprovals.delete(requestId);
+    clearTimeout(pending.timer);
+
+    const { thread, turn, prompt } = pending;
+    if (decision === "allow_always") {
+      const rule = approvalRule(prompt);
+      thread.always_allow = [...(thread.always_allow ?? []).filter(r => r !== rule), rule];
+      this.store.saveThread(thread);
+    }
+
+    pending.resolve(decision === "deny"
+      ? { behavior: "deny", message: reason ?? "Denied by the user." }
+      : { behavior: "allow", updatedInput: prompt.input });
+
+    this.notify(thread.id, "approval/resolved", {
+      request_id: requestId,
+      thread_id:  thread.id,
+      turn_id:    turn.id,
+      decision,
+      reason,
+    });
+    return pending;
+  }
+
   // ─────────────────────────────────────────────────────────────────────────
   // Helpers
   // ─────────────────────────────────────────────────────────────────────────
 
+  /** Record a finalized item on the turn, persist it and notify subscribers. */
+  private addItem(turn: Turn, item: StoredItem): void {
+    turn.items.push(item);
+    this.store.appendItem(turn, item);
+    this.notify(turn.thread_id, "item/created", { turn_id: turn.id, item });
+  }
+
+  /**
+   * Send a thread notification to every connection subscribed to the thread,
+   * stamped with the thread's next `seq` and kept for thread/replay.
+   */
+  private notify(threadId: string, method: string, params: object): void {
+    let stream = this.streams.get(threadId);
+    if (!stream) this.streams.set(threadId, stream = { seq: 0, buffer: [] });
+
+    const seq = ++stream.seq;
+    const msg = notif(method, { ...params, seq });
+    stream.buffer.push({ seq, msg });
+    if (stream.buffer.length > this.replayBufferSize) stream.buffer.shift();
+
+    for (const conn of this.subscribers.get(threadId) ?? []) conn.send(msg);
+  }
+
+  /** Buffered notifications with seq > afterSeq, or ReplayUnavailable if some were evicted. */
+  private replayEvents(threadId: string, afterSeq: number, epoch?: string): RpcNotification[] {
+    const stream = this.streams.get(threadId) ?? { seq: 0, buffer: [] };
+    const oldest = stream.buffer[0]?.seq ?? stream.seq + 1;
+    const data = { epoch: this.epoch, oldest_seq: oldest, last_seq: stream.seq };
+
+    if (epoch !== undefined && epoch !== this.epoch) {
+      throw new RpcException(E.ReplayUnavailable,
+        "Server restarted since that sequence; use thread/resume for a full snapshot.", data);
+    }
+    if (afterSeq > stream.seq || afterSeq < oldest - 1) {
+      throw new RpcException(E.ReplayUnavailable,
+        `Events after seq ${afterSeq} are not available for replay; use thread/resume for a full snapshot.`, data);
+    }
+    return stream.buffer.filter(e => e.seq > afterSeq).map(e => e.msg);
+  }
+
+  private subscribe(threadId: string, conn: ConnectionState): void {
+    let subs = this.subscribers.get(threadId);
+    if (!subs) this.subscribers.set(threadId, subs = new Set());
+    subs.add(conn);
+  }
+
   private getThread(id: string): Thread {
     const t = this.threads.get(id);
     if (!t) throw new RpcException(E.ThreadNotFound, `Thread not found: ${id}`);
     return t;
   }
+
+  /** Look a turn up by id, within `threadId` if given, else across all threads. */
+  private findTurn(turnId: string, threadId?: string): { thread: Thread; turn: Turn; index: number } {
+    const thread = threadId
+      ? this.getThread(threadId)
+      : [...this.threads.values()].find(t => t.turns.some(u => u.id === turnId));
+    const index = thread ? thread.turns.findIndex(t => t.id === turnId) : -1;
+    if (!thread || index < 0) {
+      throw new RpcException(E.InvalidParams, `Turn not found: ${turnId}`);
+    }
+    return { thread, turn: thread.turns[index], index };
+  }
 }
 
 // ─── stream-json event types (from claude --output-format stream-json) ────────
@@ -597,8 +2324,14 @@ interface ClaudeMessage {
   content?: ClaudeContentBlock[];
 }
 
+/** User messages may carry plain string content (e.g. echoed stdin input). */
+interface ClaudeUserMessage {
+  role?: string;
+  content?: string | ClaudeContentBlock[];
+}
+
 type ClaudeStreamEvent =
-  | { type: "system";    subtype: string; session_id?: string; cwd?: string; tools?: string[]; model?: string; permissionMode?: string }
+  | { type: "system";    subtype: string; session_id?: string; cwd?: string; tools?: string[]; mcp_servers?: { name: string; status: string }[]; model?: string; permissionMode?: string }
   | { type: "assistant"; message: ClaudeMessage; is_partial?: boolean; session_id?: string }
-  | { type: "user";      message: ClaudeMessage; session_id?: string }
-  | { type: "result";    subtype: string; session_id?: string; error?: string; result?: string; cost_usd?: number; is_error?: boolean; permission_denials?: { tool_name: string; tool_use_id: string; tool_input?: unknown }[] };
+  | { type: "user";      message: ClaudeUserMessage; session_id?: string; tool_use_result?: unknown }
+  | { type: "result";    subtype: string; session_id?: string; error?: string; result?: string; cost_usd?: number; total_cost_usd?: number; usage?: ResultUsage; is_error?: boolean; permission_denials?: { tool_name: string; tool_use_id: string; tool_input?: unknown }[] };
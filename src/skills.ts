@@ -0,0 +1,160 @@
+/**
+ * Custom slash commands, subagents and skills, as the claude CLI finds them:
+ *
+ *   <dir>/commands/[sub/]name.md  slash commands (/name, or /sub:name)
+ *   <dir>/agents/name.md          subagents for the Task tool
+ *   <dir>/skills/name/SKILL.md    skills
+ *
+ * for <dir> = <cwd>/.claude (scope "project") and ~/.claude (scope "user").
+ * Names and descriptions come from each file's YAML front matter; a command
+ * without a description falls back to the first line of its body.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+
+const MAX_FILES = 500;                 // per kind and directory
+const MAX_READ_BYTES = 16 * 1024;      // front matter sits at the top
+const MAX_DESCRIPTION = 300;
+
+export type ExtensionScope = "project" | "user";
+
+export interface SlashCommand {
+  name: string;
+  description?: string;
+  argument_hint?: string;
+  scope: ExtensionScope;
+  path: string;
+}
+
+export interface Subagent {
+  name: string;
+  description?: string;
+  tools?: string[];
+  model?: string;
+  scope: ExtensionScope;
+  path: string;
+}
+
+export interface Skill {
+  name: string;
+  description?: string;
+  scope: ExtensionScope;
+  path: string;
+}
+
+export interface ClaudeExtensions {
+  commands: SlashCommand[];
+  agents: Subagent[];
+  skills: Skill[];
+}
+
+/** Everything in `<cwd>/.claude` and `userDir`, project entries first. */
+export function scanExtensions(cwd: string, userDir: string): ClaudeExtensions {
+  const result: ClaudeExtensions = { commands: [], agents: [], skills: [] };
+  const dirs: [string, ExtensionScope][] = [[path.join(cwd, ".claude"), "project"], [userDir, "user"]];
+  // Run from the home directory, both are the same
+  if (path.resolve(dirs[0][0]) === path.resolve(userDir)) dirs.pop();
+
+  for (const [dir, scope] of dirs) {
+    result.commands.push(...scanCommands(path.join(dir, "commands"), scope));
+    result.agents.push(...scanAgents(path.join(dir, "agents"), scope));
+    result.skills.push(...scanSkills(path.join(dir, "skills"), scope));
+  }
+  return result;
+}
+
+function scanCommands(dir: string, scope: ExtensionScope): SlashCommand[] {
+  return markdownFiles(dir, true).map(file => {
+    const { data, body } = readFrontMatter(file);
+    const name = path.relative(dir, file).slice(0, -".md".length).split(path.sep).join(":");
+    return {
+      name,
+      description:   clip(data.description ?? firstLine(body)),
+      argument_hint: data["argument-hint"],
+      scope,
+      path:          file,
+    };
+  });
+}
+
+function scanAgents(dir: string, scope: ExtensionScope): Subagent[] {
+  return markdownFiles(dir, false).map(file => {
+    const { data } = readFrontMatter(file);
+    return {
+      name:        data.name ?? path.basename(file, ".md"),
+      description: clip(data.description),
+      tools:       data.tools?.split(",").map(t => t.trim()).filter(Boolean),
+      model:       data.model,
+      scope,
+      path:        file,
+    };
+  });
+}
+
+function scanSkills(dir: string, scope: ExtensionScope): Skill[] {
+  const skills: Skill[] = [];
+  for (const entry of readDir(dir).slice(0, MAX_FILES)) {
+    const file = path.join(dir, entry.name, "SKILL.md");
+    if (!entry.isDirectory() || !fs.existsSync(file)) continue;
+    const { data } = readFrontMatter(file);
+    skills.push({ name: data.name ?? entry.name, description: clip(data.description), scope, path: file });
+  }
+  return skills;
+}
+
+/** `*.md` files in `dir` (and below, with `recurse`), sorted, hidden entries skipped. */
+function markdownFiles(dir: string, recurse: boolean): string[] {
+  const files: string[] = [];
+  const walk = (d: string, depth: number) => {
+    for (const entry of readDir(d)) {
+      if (files.length >= MAX_FILES || entry.name.startsWith(".")) continue;
+      const full = path.join(d, entry.name);
+      if (entry.isDirectory() && recurse && depth < 4) walk(full, depth + 1);
+      else if (entry.isFile() && entry.name.endsWith(".md")) files.push(full);
+    }
+  };
+  walk(dir, 0);
+  return files;
+}
+
+function readDir(dir: string): fs.Dirent[] {
+  try {
+    return fs.readdirSync(dir, { withFileTypes: true }).sort((a, b) => a.name.localeCompare(b.name));
+  } catch {
+    return [];
+  }
+}
+
+/** The `key: value` lines of a leading `---` block, and the text after it. */
+function readFrontMatter(file: string): { data: Record<string, string>; body: string } {
+  let text = "";
+  try {
+    const fd = fs.openSync(file, "r");
+    try {
+      const buf = Buffer.alloc(MAX_READ_BYTES);
+      text = buf.toString("utf-8", 0, fs.readSync(fd, buf, 0, MAX_READ_BYTES, 0));
+    } finally {
+      fs.closeSync(fd);
+    }
+  } catch {
+    return { data: {}, body: "" };
+  }
+
+  const match = /^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/.exec(text);
+  if (!match) return { data: {}, body: text };
+  const data: Record<string, string> = {};
+  for (const line of match[1].split(/\r?\n/)) {
+    const kv = /^([\w-]+):\s*(.*)$/.exec(line);
+    if (kv && kv[2]) data[kv[1]] = kv[2].trim().replace(/^(["'])(.*)\1$/, "$2");
+  }
+  return { data, body: text.slice(match[0].length) };
+}
+
+function firstLine(body: string): string | undefined {
+  return body.split(/\r?\n/).map(l => l.replace(/^#+\s*/, "").trim()).find(Boolean);
+}
+
+function clip(text: string | undefined): string | undefined {
+  return text && text.length > MAX_DESCRIPTION ? text.slice(0, MAX_DESCRIPTION - 1) + "…" : text;
+}
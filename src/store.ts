@@ -0,0 +1,185 @@
+/**
+ * Thread persistence.
+ *
+ * The server keeps threads in memory and mirrors every change into a
+ * ThreadStore so conversations survive a restart. Two backends ship:
+ *
+ *   MemoryThreadStore    no-op; nothing survives the process (--no-persist)
+ *   JsonFileThreadStore  one append-only NDJSON log per thread (default)
+ *
+ * Log records (one JSON object per line):
+ *   { "kind": "thread", "thread": { …Thread fields, no turns } }
+ *   { "kind": "turn",   "turn":   { …Turn fields, no items/runtime state } }
+ *   { "kind": "item",   "turn_id": "…", "item": StoredItem }
+ *   { "kind": "item",   "turn_id": null, "item": StoredItem }   (outside any turn)
+ *
+ * On load the log is replayed in order: the last thread/turn record wins and
+ * items are appended to their turn, or to the thread's own items.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import type { Thread, Turn, StoredItem } from "./types.js";
+
+// ─── Interface ────────────────────────────────────────────────────────────────
+
+export interface ThreadStore {
+  /** Load every persisted thread. Called once at server startup. */
+  load(): Thread[];
+  /** Save thread-level fields (not turns). */
+  saveThread(thread: Thread): void;
+  /** Save turn-level fields (not items). */
+  saveTurn(turn: Turn): void;
+  /** Append a finalized item to a turn. */
+  appendItem(turn: Turn, item: StoredItem): void;
+  /** Append an item recorded outside any turn (thread.items). */
+  appendThreadItem(thread: Thread, item: StoredItem): void;
+  /** Remove a thread and everything recorded for it. */
+  deleteThread(threadId: string): void;
+}
+
+/** Message stored on turns that were still running when the server stopped. */
+export const INTERRUPTED_BY_RESTART = "Server restarted while the turn was running.";
+
+/** Message stored on turns stopped because the server was shutting down. */
+export const INTERRUPTED_BY_SHUTDOWN = "Server shut down while the turn was running.";
+
+/** Message stored on turns that were still queued when the server stopped. */
+export const CANCELLED_BY_RESTART = "Server restarted before the turn could start.";
+
+// ─── Serialization ────────────────────────────────────────────────────────────
+
+type ThreadRecord = Omit<Thread, "turns" | "items" | "active_turn_id">;
+type TurnRecord   = Omit<Turn,
+  "items" | "pending_input" | "awaiting_results" | "input" | "process" | "abortController">;
+
+type LogRecord =
+  | { kind: "thread"; thread: ThreadRecord }
+  | { kind: "turn";   turn: TurnRecord }
+  | { kind: "item";   turn_id: string | null; item: StoredItem };
+
+function threadRecord(thread: Thread): ThreadRecord {
+  const { turns: _turns, items: _items, active_turn_id: _active, ...rest } = thread;
+  return rest;
+}
+
+function turnRecord(turn: Turn): TurnRecord {
+  const {
+    items: _items, pending_input: _pending, awaiting_results: _awaiting,
+    input: _input, process: _proc, abortController: _ac, ...rest
+  } = turn;
+  return rest;
+}
+
+function hydrateTurn(rec: TurnRecord): Turn {
+  return {
+    ...rec, items: [], pending_input: [], awaiting_results: 0,
+    abortController: new AbortController(),
+  };
+}
+
+// ─── MemoryThreadStore ────────────────────────────────────────────────────────
+
+export class MemoryThreadStore implements ThreadStore {
+  load(): Thread[] { return []; }
+  saveThread(): void { /* nothing to do */ }
+  saveTurn(): void { /* nothing to do */ }
+  appendItem(): void { /* nothing to do */ }
+  appendThreadItem(): void { /* nothing to do */ }
+  deleteThread(): void { /* nothing to do */ }
+}
+
+// ─── JsonFileThreadStore ──────────────────────────────────────────────────────
+
+export class JsonFileThreadStore implements ThreadStore {
+  constructor(private readonly dir: string) {}
+
+  load(): Thread[] {
+    let files: string[];
+    try {
+      files = fs.readdirSync(this.dir).filter(f => f.endsWith(".jsonl"));
+    } catch {
+      return [];
+    }
+
+    const threads: Thread[] = [];
+    for (const file of files) {
+      const thread = this.loadFile(path.join(this.dir, file));
+      if (thread) threads.push(thread);
+    }
+    return threads;
+  }
+
+  saveThread(thread: Thread): void {
+    this.append(thread.id, { kind: "thread", thread: threadRecord(thread) });
+  }
+
+  saveTurn(turn: Turn): void {
+    this.append(turn.thread_id, { kind: "turn", turn: turnRecord(turn) });
+  }
+
+  appendItem(turn: Turn, item: StoredItem): void {
+    this.append(turn.thread_id, { kind: "item", turn_id: turn.id, item });
+  }
+
+  appendThreadItem(thread: Thread, item: StoredItem): void {
+    this.append(thread.id, { kind: "item", turn_id: null, item });
+  }
+
+  deleteThread(threadId: string): void {
+    fs.rmSync(this.fileFor(threadId), { force: true });
+  }
+
+  // ── Internals ─────────────────────────────────────────────────────────────
+
+  private fileFor(threadId: string): string {
+    return path.join(this.dir, `${threadId}.jsonl`);
+  }
+
+  private append(threadId: string, rec: LogRecord): void {
+    fs.mkdirSync(this.dir, { recursive: true });
+    fs.appendFileSync(this.fileFor(threadId), JSON.stringify(rec) + "\n", "utf-8");
+  }
+
+  private loadFile(file: string): Thread | null {
+    let raw: string;
+    try { raw = fs.readFileSync(file, "utf-8"); } catch { return null; }
+
+    let thread: Thread | null = null;
+    const turns = new Map<string, Turn>();
+    const items: StoredItem[] = [];
+
+    for (const line of raw.split("\n")) {
+      if (!line.trim()) continue;
+      let rec: LogRecord;
+      // A crash mid-write can leave a truncated last line; skip it.
+      try { rec = JSON.parse(line) as LogRecord; } catch { continue; }
+
+      if (rec.kind === "thread") {
+        thread = { ...rec.thread, turns: [], items };
+      } else if (rec.kind === "turn") {
+        const existing = turns.get(rec.turn.id);
+        if (existing) Object.assign(existing, rec.turn);
+        else turns.set(rec.turn.id, hydrateTurn(rec.turn));
+      } else if (rec.kind === "item") {
+        if (rec.turn_id === null) items.push(rec.item);
+        else turns.get(rec.turn_id)?.items.push(rec.item);
+      }
+    }
+
+    if (!thread) return null;
+    thread.turns = [...turns.values()].sort((a, b) => a.created_at - b.created_at);
+
+    // Turns that were running or queued when the process died can never complete.
+    for (const turn of thread.turns) {
+      if (turn.status !== "active" && turn.status !== "queued") continue;
+      const queued = turn.status === "queued";
+      turn.status       = queued ? "cancelled" : "interrupted";
+      turn.error        = queued ? CANCELLED_BY_RESTART : INTERRUPTED_BY_RESTART;
+      turn.completed_at = turn.completed_at ?? Date.now();
+      this.saveTurn(turn);
+    }
+
+    return thread;
+  }
+}
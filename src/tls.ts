@@ -0,0 +1,103 @@
+/**
+ * TLS identity for the WebSocket transport.
+ *
+ * By default a self-signed certificate is generated once and kept in
+ * `<config dir>/tls/` (cert.pem, key.pem), so its fingerprint stays the same
+ * across restarts and clients can pin it (the start banner's QR code carries
+ * it). Its subject alternative names cover localhost, the hostname and the
+ * LAN addresses at creation time. `claude-app-server cert rotate` replaces
+ * it; an expired one is replaced on startup.
+ *
+ * --cert / --key load a certificate from elsewhere instead; nothing is
+ * generated or stored then.
+ */
+
+import { X509Certificate, createPrivateKey } from "crypto";
+import * as fs from "fs";
+import * as net from "net";
+import * as path from "path";
+import selfsigned from "selfsigned";
+
+const VALIDITY_DAYS = 825;   // the longest validity Apple platforms accept
+
+export interface TlsIdentity {
+  cert: string;
+  key: string;
+  /** SHA-256 of the DER certificate, e.g. "AB:CD:…". */
+  fingerprint: string;
+  /** Subject alternative names, e.g. ["DNS:localhost", "IP Address:127.0.0.1"]. */
+  altNames: string[];
+  validTo: Date;
+  certFile: string;
+}
+
+/** The fingerprint as it goes into URLs: lowercase hex, no colons. */
+export function fingerprintHex(identity: TlsIdentity): string {
+  return identity.fingerprint.replace(/:/g, "").toLowerCase();
+}
+
+/** Load the certificate and key at the given paths and check they match. */
+export function loadIdentity(certFile: string, keyFile: string): TlsIdentity {
+  const cert = fs.readFileSync(certFile, "utf-8");
+  const key  = fs.readFileSync(keyFile, "utf-8");
+  const x509 = new X509Certificate(cert);
+  if (!x509.checkPrivateKey(createPrivateKey(key))) {
+    throw new Error(`${keyFile} is not the private key for ${certFile}`);
+  }
+  return {
+    cert, key,
+    fingerprint: x509.fingerprint256,
+    altNames:    (x509.subjectAltName ?? "").split(", ").filter(Boolean),
+    validTo:     new Date(x509.validTo),
+    certFile,
+  };
+}
+
+/**
+ * The stored self-signed identity in `dir`, created first if missing or
+ * expired. `hosts` (hostnames and IPs) become its alternative names.
+ */
+export function storedIdentity(dir: string, hosts: string[], log: (msg: string) => void): TlsIdentity {
+  const certFile = path.join(dir, "cert.pem");
+  const keyFile  = path.join(dir, "key.pem");
+
+  if (fs.existsSync(certFile) && fs.existsSync(keyFile)) {
+    const identity = loadIdentity(certFile, keyFile);
+    if (identity.validTo.getTime() > Date.now()) return identity;
+    log(`TLS certificate expired on ${identity.validTo.toISOString()}; creating a new one`);
+  }
+  return createIdentity(dir, hosts);
+}
+
+/** Generate a new self-signed identity in `dir`, replacing any existing one. */
+export function createIdentity(dir: string, hosts: string[]): TlsIdentity {
+  const names = [...new Set(["localhost", "127.0.0.1", "::1", ...hosts])];
+  const pems = selfsigned.generate([{ name: "commonName", value: "claude-app-server" }], {
+    days:      VALIDITY_DAYS,
+    keySize:   2048,
+    algorithm: "sha256",
+    extensions: [
+      { name: "basicConstraints", cA: false },
+      { name: "keyUsage", digitalSignature: true, keyEncipherment: true },
+      { name: "extKeyUsage", serverAuth: true },
+      {
+        name: "subjectAltName",
+        // type 2 = DNS name, 7 = IP address
+        altNames: names.map(n => net.isIP(n) ? { type: 7, ip: n } : { type: 2, value: n }),
+      },
+    ],
+  });
+
+  fs.mkdirSync(dir, { recursive: true, mode: 0o700 });
+  const certFile = path.join(dir, "cert.pem");
+  const keyFile  = path.join(dir, "key.pem");
+  fs.writeFileSync(keyFile, pems.private, { mode: 0o600 });
+  fs.writeFileSync(certFile, pems.cert);
+  return loadIdentity(certFile, keyFile);
+}
+
+/** Hosts from `hosts` that the certificate does not name. */
+export function uncoveredHosts(identity: TlsIdentity, hosts: string[]): string[] {
+  return hosts.filter(h => !identity.altNames.some(n =>
+    net.isIP(h) ? n === `IP Address:${h}` : n.toLowerCase() === `dns:${h.toLowerCase()}`));
+}
@@ -1,6 +1,7 @@
 /**
- * Built-in tool catalog — used only for skills/list discovery.
- * Tool execution is handled natively by the local claude CLI.
+ * Built-in tool catalog — descriptions and parameters for skills/list, and
+ * the tool list used for a workspace until the CLI has reported its own
+ * (system/init). Tool execution is handled natively by the local claude CLI.
  */
 
 export const BUILTIN_SKILLS = [
@@ -40,6 +41,32 @@ export const BUILTIN_SKILLS = [
       required: ["file_path", "old_string", "new_string"],
     },
   },
+  {
+    name: "MultiEdit",
+    description: "Make several edits to one file in a single operation.",
+    parameters: {
+      type: "object",
+      properties: {
+        file_path: { type: "string", description: "Path to the file to modify" },
+        edits:     { type: "array", description: "Edits ({ old_string, new_string, replace_all? }) applied in order" },
+      },
+      required: ["file_path", "edits"],
+    },
+  },
+  {
+    name: "NotebookEdit",
+    description: "Replace, insert or delete a cell in a Jupyter notebook.",
+    parameters: {
+      type: "object",
+      properties: {
+        notebook_path: { type: "string", description: "Absolute path to the .ipynb file" },
+        cell_id:       { type: "string", description: "Cell to edit (or insert after)" },
+        new_source:    { type: "string", description: "New cell source" },
+        edit_mode:     { type: "string", description: "replace, insert or delete" },
+      },
+      required: ["notebook_path", "new_source"],
+    },
+  },
   {
     name: "Bash",
     description: "Execute a shell command in the working directory.",
@@ -100,6 +127,17 @@ export const BUILTIN_SKILLS = [
       required: ["query"],
     },
   },
+  {
+    name: "TodoWrite",
+    description: "Create and update the task list for the current session.",
+    parameters: {
+      type: "object",
+      properties: {
+        todos: { type: "array", description: "Todo items ({ content, status, activeForm })" },
+      },
+      required: ["todos"],
+    },
+  },
   {
     name: "Task",
     description: "Spawn a sub-agent to handle a parallel task.",
@@ -2,35 +2,60 @@
  * Transport layer: stdio (default) and WebSocket.
  *
  * Both transports create a ConnectionState and forward incoming NDJSON lines
- * to the server, and provide a send() function for outgoing messages.
+ * (single messages or JSON-RPC batches) to the server, and provide a send()
+ * function for outgoing messages.
  */
 
 import * as readline from "readline";
 import * as http from "http";
 import * as https from "https";
-import { URL } from "url";
 import { WebSocketServer, WebSocket } from "ws";
-import selfsigned from "selfsigned";
-import { parseLine } from "./protocol.js";
-import type { RpcIncoming } from "./protocol.js";
+import { parseLine, isErrorResponse } from "./protocol.js";
+import type { RpcResponse } from "./protocol.js";
 import type { ConnectionState } from "./types.js";
+import type { DeviceAuth } from "./auth.js";
+import type { TlsIdentity } from "./tls.js";
 import { ClaudeAppServer } from "./server.js";
 
 // ─── Connection factory ───────────────────────────────────────────────────────
 
 function makeConnection(sendFn: (msg: unknown) => void): ConnectionState {
-  return { initialized: false, send: sendFn };
+  return { initialized: false, send: sendFn, inflight: new Map() };
 }
 
 // ─── Message dispatcher ───────────────────────────────────────────────────────
 
+/**
+ * Handle one incoming line / frame: a single message, a batch (answered with
+ * one array, notifications omitted), or malformed input (answered with the
+ * ParseError / InvalidRequest error).
+ */
 async function dispatch(
-  raw: RpcIncoming,
+  line: string,
   conn: ConnectionState,
   server: ClaudeAppServer,
 ): Promise<void> {
-  const response = await server.handleMessage(raw, conn);
-  if (response) conn.send(response);
+  const input = parseLine(line);
+  if (!input) return;
+
+  switch (input.type) {
+    case "invalid":
+      conn.send(input.response);
+      return;
+    case "message": {
+      const response = await server.handleMessage(input.msg, conn);
+      if (response) conn.send(response);
+      return;
+    }
+    case "batch": {
+      const responses = await Promise.all(input.entries.map((entry) =>
+        isErrorResponse(entry) ? entry : server.handleMessage(entry, conn)));
+      const replies = responses.filter((r): r is RpcResponse => r !== null);
+      // A batch of only notifications gets no reply at all
+      if (replies.length > 0) conn.send(replies);
+      return;
+    }
+  }
 }
 
 // ─── stdio transport ──────────────────────────────────────────────────────────
@@ -46,11 +71,13 @@ export function startStdio(server: ClaudeAppServer): void {
   });
 
   rl.on("line", (line) => {
-    const msg = parseLine(line);
-    if (msg) dispatch(msg, conn, server).catch(() => {});
+    dispatch(line, conn, server).catch(() => {});
   });
 
-  rl.on("close", () => process.exit(0));
+  // Client went away: stop the agents before exiting
+  rl.on("close", () => {
+    server.shutdown().finally(() => process.exit(0));
+  });
 
   process.stderr.write("[claude-app-server] listening on stdio\n");
 }
@@ -58,9 +85,10 @@ export function startStdio(server: ClaudeAppServer): void {
 // ─── WebSocket transport ──────────────────────────────────────────────────────
 
 export interface WsOptions {
-  pairKey: string;
+  auth: DeviceAuth;
   debug?: boolean;
-  tls?: boolean;
+  /** Certificate to serve wss:// with; plain ws:// when omitted. */
+  tls?: TlsIdentity;
 }
 
 export function startWebSocket(
@@ -68,18 +96,11 @@ export function startWebSocket(
   port: number,
   options: WsOptions,
 ): void {
-  const useTls = options.tls !== false;
-  const proto = useTls ? "wss" : "ws";
+  const proto = options.tls ? "wss" : "ws";
 
   let httpServer: http.Server | https.Server;
-  if (useTls) {
-    const attrs = [{ name: "commonName", value: "localhost" }];
-    const pems = selfsigned.generate(attrs, {
-      days: 1,
-      keySize: 2048,
-      algorithm: "sha256",
-    });
-    httpServer = https.createServer({ key: pems.private, cert: pems.cert });
+  if (options.tls) {
+    httpServer = https.createServer({ key: options.tls.key, cert: options.tls.cert });
   } else {
     httpServer = http.createServer();
   }
@@ -87,19 +108,6 @@ export function startWebSocket(
   const wss = new WebSocketServer({ server: httpServer });
 
   wss.on("connection", (ws: WebSocket, req) => {
-    // ─── Pair key validation ──────────────────────────────────────────
-    const reqUrl = new URL(req.url ?? "/", `${proto === "wss" ? "https" : "http"}://localhost:${port}`);
-    const clientKey = reqUrl.searchParams.get("key");
-    if (options.debug) {
-      process.stderr.write(
-        `[debug] wss connection req.url=${req.url} clientKey=${clientKey} expected=${options.pairKey}\n`,
-      );
-    }
-    if (clientKey !== options.pairKey) {
-      ws.close(4401, "Invalid pair key");
-      return;
-    }
-
     const conn = makeConnection((msg) => {
       if (ws.readyState !== WebSocket.OPEN) return;
       try {
@@ -108,11 +116,31 @@ export function startWebSocket(
         // Socket closed between readyState check and send; ignore
       }
     });
+    conn.authRequired = true;
+    conn.remoteAddress = req.socket.remoteAddress ?? "unknown";
+    conn.close = (code, reason) => ws.close(code, reason);
+
+    // ─── Device token (optional here; also accepted by initialize) ────
+    const header = req.headers.authorization;
+    if (options.debug) {
+      process.stderr.write(`[debug] ${proto} connection from ${conn.remoteAddress} token=${header ? "yes" : "no"}\n`);
+    }
+    if (header?.startsWith("Bearer ")) {
+      try {
+        conn.device = options.auth.login(header.slice("Bearer ".length).trim(), conn.remoteAddress);
+      } catch (e) {
+        ws.close(4401, e instanceof Error ? e.message : "Unauthorized");
+        return;
+      }
+    }
+
+    server.connect(conn);
 
     ws.on("message", (data) => {
-      const msg = parseLine(data.toString());
-      if (msg) dispatch(msg, conn, server).catch(() => {});
+      dispatch(data.toString(), conn, server).catch(() => {});
     });
+
+    ws.on("close", () => server.disconnect(conn));
   });
 
   httpServer.listen(port, () => {
@@ -6,7 +6,10 @@
  * Item     An atomic unit of content (text, tool call, file change, …).
  */
 
-import type { ChildProcess } from "child_process";
+import type { DeviceInfo } from "./auth.js";
+import type { McpServerConfig } from "./config.js";
+import type { AgentProcess } from "./runner.js";
+import type { RpcId } from "./protocol.js";
 
 // ─── Permissions ─────────────────────────────────────────────────────────────
 
@@ -22,6 +25,27 @@ export type PermissionMode =
 export interface TextItem     { type: "text";           text: string }
 export interface ThinkingItem { type: "thinking";       thinking: string }
 
+/** A message injected into a running turn via turn/steer. */
+export interface SteerItem {
+  type: "steer";
+  text: string;
+  content: UserContentBlock[];
+}
+
+// ─── User content ────────────────────────────────────────────────────────────
+
+/** A block of user input, as sent to turn/start or turn/steer (see content.ts). */
+export type UserContentBlock =
+  | { type: "text";  text: string }
+  | { type: "image"; media_type: string; data: string }   // base64
+  | { type: "file";  path: string; size: number };         // relative to thread cwd
+
+/** Validated user content: the blocks as stored, and the Anthropic message content the CLI is sent. */
+export interface UserMessage {
+  blocks: UserContentBlock[];
+  claude: unknown[];
+}
+
 export interface ToolCallItem {
   type: "tool_call";
   tool_use_id: string;
@@ -36,27 +60,52 @@ export interface ToolResultItem {
   is_error?: boolean;
 }
 
+/** Derived from a Write/Edit/MultiEdit/NotebookEdit tool call (see activity.ts). */
 export interface FileChangeItem {
   type: "file_change";
+  /** The tool call that made the change. */
+  tool_use_id?: string;
+  /** Relative to the thread's cwd when inside it, absolute otherwise. */
   path: string;
   operation: "create" | "update" | "delete";
+  /** Unified diff; omitted for files too large, or changed too much, to diff. */
+  diff?: string;
 }
 
+/** Derived from a Bash tool call. */
 export interface CommandOutputItem {
   type: "command_output";
+  tool_use_id?: string;
   command: string;
   stdout: string;
   stderr: string;
   exit_code: number;
+  interrupted?: boolean;
+}
+
+/** A git/stage, git/commit or git/checkout call, made by the client rather than the agent. */
+export interface GitItem {
+  type: "git";
+  operation: "stage" | "unstage" | "commit" | "checkout";
+  /** The equivalent git command line (what tool rules are matched against). */
+  command: string;
+  /** Paths staged or unstaged (all changes when absent). */
+  paths?: string[];
+  /** The new commit, for commits. */
+  commit?: string;
+  /** The branch checked out, or committed to. */
+  branch?: string | null;
 }
 
 export type Item =
   | TextItem
   | ThinkingItem
+  | SteerItem
   | ToolCallItem
   | ToolResultItem
   | FileChangeItem
-  | CommandOutputItem;
+  | CommandOutputItem
+  | GitItem;
 
 export interface StoredItem {
   id: string;
@@ -66,27 +115,63 @@ export interface StoredItem {
 
 // ─── Turn ─────────────────────────────────────────────────────────────────────
 
-export type TurnStatus = "active" | "completed" | "interrupted" | "error";
+/** Tokens and cost, as reported by the CLI's result events. */
+export interface Usage {
+  input_tokens: number;
+  output_tokens: number;
+  cache_creation_input_tokens: number;
+  cache_read_input_tokens: number;
+  cost_usd: number;
+}
+
+export type TurnStatus = "queued" | "active" | "completed" | "interrupted" | "error" | "cancelled" | "timeout";
 
 export interface Turn {
   id: string;
   thread_id: string;
   status: TurnStatus;
 
-  /** Content the user sent to start this turn. */
+  /** Content the user sent to start this turn, as plain text. */
   user_content: string;
 
-  /** Extra content queued via turn/steer (injected into next claude call). */
-  steer_queue: string[];
+  /** The blocks the user sent (text, images, files). Absent on turns stored before attachments. */
+  content?: UserContentBlock[];
+
+  /**
+   * Messages written to the agent's stdin that it has not echoed back yet
+   * (the initial user content, then any turn/steer messages), in order.
+   */
+  pending_input: { content: UserContentBlock[]; steer: boolean }[];
+
+  /** Messages written to stdin whose `result` event has not arrived yet. */
+  awaiting_results: number;
 
   /** All items produced during this turn. */
   items: StoredItem[];
 
-  /** The running claude subprocess for this turn (if still active). */
-  process?: ChildProcess;
+  /** The turn/start message for the CLI, as validated; dropped once it is written to stdin. */
+  input?: UserMessage;
+
+  /** The agent process running this turn (if still active). */
+  process?: AgentProcess;
 
   abortController: AbortController;
 
+  /** Workspace checkpoint commits around the turn (git workspaces only). */
+  checkpoint?: { before: string; after?: string };
+
+  /** CLI session as of the end of this turn; resuming it forks from here. */
+  cli_session_id?: string;
+
+  /** Tokens and cost so far (absent until the first result event). */
+  usage?: Usage;
+
+  /** The model the CLI reported using (system/init). */
+  model?: string;
+
+  /** Set when the turn was undone by turn/revert or thread/rollback. */
+  reverted_at?: number;
+
   created_at: number;
   completed_at?: number;
   error?: string;
@@ -98,6 +183,8 @@ export interface Thread {
   id: string;
   created_at: number;
   turns: Turn[];
+  /** Items recorded outside any turn (git/* writes), oldest first. */
+  items: StoredItem[];
   cwd: string;
   permission_mode: PermissionMode;
   active_turn_id?: string;
@@ -113,6 +200,46 @@ export interface Thread {
    * Used to pass --resume <id> --fork-session on the first turn.
    */
   forkFrom?: { cliSessionId: string };
+
+  /** ID of the thread this one was forked from (for thread/list filtering). */
+  forked_from?: string;
+
+  /** Set by thread/archive; archived threads are hidden from thread/list by default. */
+  archived_at?: number;
+
+  /**
+   * Tool rules approved with "allow_always" (e.g. "Edit", "Bash(npm test)").
+   * Matching approval prompts are answered without asking the client.
+   */
+  always_allow?: string[];
+
+  /** Spending limit for the whole thread in USD (overrides the server default). */
+  budget_usd?: number;
+
+  /** Name of the config profile the thread was started with. */
+  profile?: string;
+
+  /** Model for turns that name none (overrides the profile's and the server's). */
+  model?: string;
+
+  /** Model the CLI switches to when the main one is overloaded (--fallback-model). */
+  fallback_model?: string;
+
+  /** Replaces the agent's default system prompt (--system-prompt). */
+  system_prompt?: string;
+
+  /** Added to the system prompt, after the profile's (--append-system-prompt). */
+  append_system_prompt?: string;
+
+  /**
+   * Tool rules passed as --allowedTools / --disallowedTools on every turn,
+   * e.g. "Read", "Bash(git status:*)". allowed_tools replaces the profile's.
+   */
+  allowed_tools?: string[];
+  disallowed_tools?: string[];
+
+  /** Extra MCP servers for every turn, added to (and overriding) the profile's. */
+  mcp_servers?: Record<string, McpServerConfig>;
 }
 
 // ─── Connection State ─────────────────────────────────────────────────────────
@@ -122,4 +249,13 @@ export interface ConnectionState {
   client_info?: { name: string; version: string };
   /** send a message to the connected client */
   send: (msg: unknown) => void;
+  /** Requests still being handled, by id, so $/cancelRequest can abort them. */
+  inflight: Map<RpcId, AbortController>;
+  /** Set by transports that need a paired device (WebSocket). */
+  authRequired?: boolean;
+  /** The paired device this connection authenticated as. */
+  device?: DeviceInfo;
+  remoteAddress?: string;
+  /** Close the underlying socket (WebSocket only). */
+  close?: (code: number, reason: string) => void;
 }
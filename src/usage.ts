@@ -0,0 +1,101 @@
+/**
+ * Token usage, cost and budgets.
+ *
+ * The CLI reports usage on every `result` event (one per message written to
+ * stdin). Token counts there are per message and are summed; `total_cost_usd`
+ * is cumulative for the process, i.e. for the turn so far (older CLIs send a
+ * per-message `cost_usd` instead, which is summed).
+ *
+ * Budgets are in USD and apply per thread, per connection and per local
+ * calendar day. A spent budget rejects turn/start; a running turn is capped
+ * with --max-budget-usd and interrupted if a result still puts it over.
+ */
+
+import { E, RpcException } from "./protocol.js";
+import type { Usage } from "./types.js";
+
+export type BudgetScope = "thread" | "connection" | "daily";
+
+export interface Budgets {
+  /** Default limit for each thread (thread/start budget_usd overrides it). */
+  thread_usd?: number;
+  connection_usd?: number;
+  daily_usd?: number;
+}
+
+/** Usage as reported on a CLI result event. */
+export interface ResultUsage {
+  input_tokens?: number;
+  output_tokens?: number;
+  cache_creation_input_tokens?: number;
+  cache_read_input_tokens?: number;
+}
+
+export function emptyUsage(): Usage {
+  return {
+    input_tokens:                0,
+    output_tokens:               0,
+    cache_creation_input_tokens: 0,
+    cache_read_input_tokens:     0,
+    cost_usd:                    0,
+  };
+}
+
+export function addUsage(total: Usage, u: Usage): Usage {
+  return {
+    input_tokens:                total.input_tokens + u.input_tokens,
+    output_tokens:               total.output_tokens + u.output_tokens,
+    cache_creation_input_tokens: total.cache_creation_input_tokens + u.cache_creation_input_tokens,
+    cache_read_input_tokens:     total.cache_read_input_tokens + u.cache_read_input_tokens,
+    cost_usd:                    total.cost_usd + u.cost_usd,
+  };
+}
+
+/**
+ * Fold one result event into a turn's usage and return the new total.
+ * `totalCost` (cumulative) wins over `cost` (per message) when both are present.
+ */
+export function applyResult(usage: Usage, reported: ResultUsage | undefined, totalCost?: number, cost?: number): Usage {
+  return {
+    input_tokens:                usage.input_tokens + (reported?.input_tokens ?? 0),
+    output_tokens:               usage.output_tokens + (reported?.output_tokens ?? 0),
+    cache_creation_input_tokens: usage.cache_creation_input_tokens + (reported?.cache_creation_input_tokens ?? 0),
+    cache_read_input_tokens:     usage.cache_read_input_tokens + (reported?.cache_read_input_tokens ?? 0),
+    cost_usd: typeof totalCost === "number" ? Math.max(usage.cost_usd, totalCost) : usage.cost_usd + (cost ?? 0),
+  };
+}
+
+/** Local calendar day, e.g. "2026-10-19" (daily budgets reset at local midnight). */
+export function dayKey(ts: number = Date.now()): string {
+  const d = new Date(ts);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
+
+/** A budget check: how much of `limit_usd` is spent. */
+export interface BudgetStatus {
+  scope: BudgetScope;
+  limit_usd: number;
+  spent_usd: number;
+}
+
+/** The first budget that is used up, if any. */
+export function exceeded(statuses: BudgetStatus[]): BudgetStatus | undefined {
+  return statuses.find(s => s.spent_usd >= s.limit_usd);
+}
+
+/** Smallest remaining headroom across budgets, or undefined when none apply. */
+export function headroom(statuses: BudgetStatus[]): number | undefined {
+  if (statuses.length === 0) return undefined;
+  return Math.max(0, Math.min(...statuses.map(s => s.limit_usd - s.spent_usd)));
+}
+
+function usd(amount: number): string {
+  return "$" + amount.toFixed(amount < 1 ? 4 : 2);
+}
+
+export function budgetError(status: BudgetStatus): RpcException {
+  return new RpcException(E.BudgetExceeded,
+    `The ${status.scope} budget of ${usd(status.limit_usd)} is used up (${usd(status.spent_usd)} spent).`,
+    status);
+}
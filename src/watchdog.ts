@@ -0,0 +1,85 @@
+/**
+ * Turn watchdog and process termination.
+ *
+ * A Watchdog enforces two limits on a running turn:
+ *   - wall clock: the whole turn must finish within `turnTimeoutMs`
+ *   - idle:       the CLI must print something at least every `idleTimeoutMs`
+ * Either limit set to 0 is disabled. The idle limit is re-armed instead of
+ * firing while `shouldWait()` is true (e.g. a tool approval is pending).
+ *
+ * terminate() sends SIGTERM and escalates to SIGKILL if the process is still
+ * alive after the grace period.
+ */
+
+import type { AgentProcess } from "./runner.js";
+
+export type TimeoutKind = "turn" | "idle";
+
+export interface WatchdogOptions {
+  turnTimeoutMs: number;
+  idleTimeoutMs: number;
+  /** Idle time is not counted while this returns true. */
+  shouldWait?: () => boolean;
+  onTimeout: (kind: TimeoutKind) => void;
+}
+
+export class Watchdog {
+  private turnTimer?: NodeJS.Timeout;
+  private idleTimer?: NodeJS.Timeout;
+  private fired = false;
+
+  constructor(private readonly opts: WatchdogOptions) {
+    if (opts.turnTimeoutMs > 0) {
+      this.turnTimer = setTimeout(() => this.fire("turn"), opts.turnTimeoutMs);
+      this.turnTimer.unref();
+    }
+    this.touch();
+  }
+
+  /** The CLI produced output: restart the idle clock. */
+  touch(): void {
+    if (this.fired || this.opts.idleTimeoutMs <= 0) return;
+    clearTimeout(this.idleTimer);
+    this.idleTimer = setTimeout(() => {
+      if (this.opts.shouldWait?.()) this.touch();
+      else this.fire("idle");
+    }, this.opts.idleTimeoutMs);
+    this.idleTimer.unref();
+  }
+
+  stop(): void {
+    clearTimeout(this.turnTimer);
+    clearTimeout(this.idleTimer);
+  }
+
+  private fire(kind: TimeoutKind): void {
+    if (this.fired) return;
+    this.fired = true;
+    this.stop();
+    this.opts.onTimeout(kind);
+  }
+}
+
+/** True until the process has exited or been killed by a signal. */
+export function isAlive(proc: AgentProcess): boolean {
+  return proc.exitCode === null && proc.signalCode === null;
+}
+
+/**
+ * SIGTERM `proc`, then SIGKILL it if it has not exited after `graceMs`.
+ * Resolves once the process is gone.
+ */
+export function terminate(proc: AgentProcess, graceMs: number): Promise<void> {
+  if (!isAlive(proc)) return Promise.resolve();
+  return new Promise((resolve) => {
+    const timer = setTimeout(() => {
+      if (isAlive(proc)) proc.kill("SIGKILL");
+    }, graceMs);
+    timer.unref();
+    proc.once("exit", () => {
+      clearTimeout(timer);
+      resolve();
+    });
+    proc.kill("SIGTERM");
+  });
+}
@@ -0,0 +1,77 @@
+// Unit tests for workspace checkpoints (built dist/checkpoints.js), against
+// real git repositories.
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { execFileSync } from "node:child_process";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { applyRestore, createCheckpoint, planRestore } from "../dist/checkpoints.js";
+
+/** A git repository holding `files`, removed after the test. */
+function repo(t, files) {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "claude-app-server-checkpoints-"));
+  t.after(() => fs.rmSync(dir, { recursive: true, force: true }));
+  execFileSync("git", ["init", "-q"], { cwd: dir });
+  write(dir, files);
+  return dir;
+}
+
+function write(dir, files) {
+  for (const [name, text] of Object.entries(files)) fs.writeFileSync(path.join(dir, name), text);
+}
+
+const read = (dir, name) => fs.readFileSync(path.join(dir, name), "utf-8");
+
+/** Checkpoints around `edit`, as one undoable step. */
+async function step(dir, name, edit) {
+  const before = await createCheckpoint(dir, `t/${name}-before`);
+  edit();
+  const after = await createCheckpoint(dir, `t/${name}-after`);
+  return { before, after };
+}
+
+test("restoring steps undoes edits and removes created files", async (t) => {
+  const dir = repo(t, { "a.txt": "one\n", "keep.txt": "mine\n" });
+  const first  = await step(dir, "1", () => write(dir, { "a.txt": "two\n" }));
+  const second = await step(dir, "2", () => write(dir, { "a.txt": "three\n", "new.txt": "created\n" }));
+
+  const plan = await planRestore(dir, [first, second]);
+  assert.deepEqual(plan.conflicts, []);
+  assert.deepEqual(await applyRestore(plan), ["a.txt", "new.txt"]);
+  assert.equal(read(dir, "a.txt"), "one\n");
+  assert.ok(!fs.existsSync(path.join(dir, "new.txt")));
+  assert.equal(read(dir, "keep.txt"), "mine\n");
+});
+
+test("files edited since the checkpoint are conflicts", async (t) => {
+  const dir = repo(t, { "a.txt": "one\n", "b.txt": "one\n" });
+  const first  = await step(dir, "1", () => write(dir, { "a.txt": "two\n" }));
+  write(dir, { "a.txt": "edited by hand\n" });
+  const second = await step(dir, "2", () => write(dir, { "a.txt": "three\n", "b.txt": "two\n" }));
+  write(dir, { "b.txt": "edited by hand\n" });
+
+  // Between the steps and after the last one
+  assert.deepEqual((await planRestore(dir, [first, second])).conflicts, ["a.txt", "b.txt"]);
+  assert.deepEqual((await planRestore(dir, [second])).conflicts, ["b.txt"]);
+});
+
+test("file names with glob characters match only themselves", async (t) => {
+  const dir = repo(t, { "*.ts": "one\n", "b.ts": "one\n", "[a].txt": "one\n", "a.txt": "one\n" });
+  const turn = await step(dir, "1", () => write(dir, { "*.ts": "two\n", "[a].txt": "two\n" }));
+
+  // Edits to the files the patterns would match are not conflicts…
+  write(dir, { "b.ts": "edited by hand\n", "a.txt": "edited by hand\n" });
+  const plan = await planRestore(dir, [turn]);
+  assert.deepEqual(plan.conflicts, []);
+  assert.deepEqual(await applyRestore(plan), ["*.ts", "[a].txt"]);
+  assert.equal(read(dir, "*.ts"), "one\n");
+  assert.equal(read(dir, "[a].txt"), "one\n");
+  assert.equal(read(dir, "b.ts"), "edited by hand\n");
+
+  // …but edits to the files themselves are
+  const again = await step(dir, "2", () => write(dir, { "[a].txt": "three\n" }));
+  write(dir, { "[a].txt": "edited by hand\n" });
+  assert.deepEqual((await planRestore(dir, [again])).conflicts, ["[a].txt"]);
+});
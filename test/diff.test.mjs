@@ -0,0 +1,35 @@
+// Unit tests for the line diff behind file_change items (built dist/diff.js).
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { unifiedDiff } from "../dist/diff.js";
+
+const lines = (n, tag) => Array.from({ length: n }, (_, i) => `${tag} ${i}`).join("\n") + "\n";
+
+test("a small edit in a large file gives one hunk", () => {
+  const before = lines(15_000, "line");
+  const after = before.replace("line 7000\n", "changed\n");
+  const diff = unifiedDiff("big.txt", before, after);
+  assert.match(diff, /^@@ -6998,7 \+6998,7 @@$/m);
+  assert.equal(diff.split("\n").filter(l => l.startsWith("-") || l.startsWith("+")).length, 4);
+});
+
+test("a full rewrite of a large file is skipped, not diffed", () => {
+  const heap = process.memoryUsage().heapUsed;
+  const started = Date.now();
+  assert.equal(unifiedDiff("big.txt", lines(15_000, "old"), lines(15_000, "new")), undefined);
+  assert.ok(Date.now() - started < 2000);
+  assert.ok(process.memoryUsage().heapUsed - heap < 100 * 1024 * 1024);
+});
+
+test("new and deleted files diff at any size", () => {
+  const created = unifiedDiff("big.txt", null, lines(15_000, "new"));
+  assert.match(created, /^@@ -0,0 \+1,15000 @@$/m);
+  const deleted = unifiedDiff("big.txt", lines(15_000, "old"), null);
+  assert.match(deleted, /^@@ -1,15000 \+0,0 @@$/m);
+});
+
+test("a moderate rewrite still diffs", () => {
+  const diff = unifiedDiff("f.txt", lines(500, "old"), lines(500, "new"));
+  assert.match(diff, /^@@ -1,500 \+1,500 @@$/m);
+});
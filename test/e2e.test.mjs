@@ -0,0 +1,893 @@
+// End-to-end tests: the real server over stdio, with the replay runner
+// playing the transcripts in test/fixtures instead of the claude CLI.
+//
+//   pnpm test        (builds first; needs no claude install or network)
+
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { spawn, execFileSync } from "node:child_process";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import * as readline from "node:readline";
+import { fileURLToPath } from "node:url";
+
+const ROOT     = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "..");
+const FIXTURES = path.join(ROOT, "test", "fixtures");
+
+/** Minimal JSON-RPC client for the server's stdio transport. */
+class Client {
+  /**
+   * `env` is added to the server's environment; without `replay`, turns run the
+   * `claude` found on PATH. Threads are kept in memory unless `dataDir` is given.
+   */
+  constructor(args = [], { replay = true, env = {}, dataDir } = {}) {
+    const runner = replay ? ["--replay", FIXTURES] : [];
+    const store = dataDir ? ["--data-dir", dataDir] : ["--no-persist"];
+    this.proc = spawn(process.execPath, [path.join(ROOT, "dist", "index.js"), ...runner, ...store, ...args], {
+      stdio: ["pipe", "pipe", "pipe"],
+      // Keep the developer's own config file and devices out of the tests
+      cwd:   tmpDir(),
+      env:   { ...process.env, CLAUDE_APP_SERVER_HOME: tmpDir(), ...env },
+    });
+    this.nextId = 1;
+    this.pending = new Map();
+    this.notifications = [];
+    this.waiters = [];
+    this.stderr = "";
+    this.proc.stderr.on("data", (d) => { this.stderr += d; });
+    readline.createInterface({ input: this.proc.stdout }).on("line", (line) => this.onLine(JSON.parse(line)));
+  }
+
+  onLine(msg) {
+    if (Array.isArray(msg)) return this.pending.get("batch")?.(msg);
+    if (msg.id !== undefined && msg.id !== null) {
+      this.pending.get(msg.id)?.(msg);
+      this.pending.delete(msg.id);
+      return;
+    }
+    this.notifications.push(msg);
+    this.waiters = this.waiters.filter(w => !w(msg));
+  }
+
+  send(msg) {
+    this.proc.stdin.write(JSON.stringify(msg) + "\n");
+  }
+
+  /** Call a method; resolves with the result, rejects with the RPC error. */
+  call(method, params) {
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      this.pending.set(id, (msg) => msg.error ? reject(Object.assign(new Error(msg.error.message), msg.error)) : resolve(msg.result));
+      this.send({ jsonrpc: "2.0", id, method, params });
+    });
+  }
+
+  batch(requests) {
+    return new Promise((resolve) => {
+      this.pending.set("batch", (msgs) => { this.pending.delete("batch"); resolve(msgs); });
+      this.send(requests);
+    });
+  }
+
+  /** First notification (seen or future) matching `method` and `pred`. */
+  waitFor(method, pred = () => true, timeoutMs = 5000) {
+    const match = (m) => m.method === method && pred(m.params);
+    const seen = this.notifications.find(match);
+    if (seen) return Promise.resolve(seen.params);
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => reject(new Error(`timed out waiting for ${method}\n${this.stderr}`)), timeoutMs);
+      this.waiters.push((m) => {
+        if (!match(m)) return false;
+        clearTimeout(timer);
+        resolve(m.params);
+        return true;
+      });
+    });
+  }
+
+  /** Notifications for one turn, in order. */
+  turnEvents(turnId) {
+    return this.notifications.filter(n => n.params?.turn_id === turnId);
+  }
+
+  close() {
+    return new Promise((resolve) => {
+      if (this.proc.exitCode !== null) return resolve();
+      this.proc.once("exit", () => resolve());
+      this.proc.stdin.end();
+    });
+  }
+}
+
+/** Every directory from `tmpDir()`, removed once the file's tests are done. */
+const tmpDirs = [];
+
+function tmpDir() {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "claude-app-server-e2e-"));
+  tmpDirs.push(dir);
+  return dir;
+}
+
+function gitRepo() {
+  const dir = tmpDir();
+  const git = (...args) => execFileSync("git", args, { cwd: dir, stdio: "pipe" });
+  git("init", "-q");
+  git("-c", "user.name=test", "-c", "user.email=test@example.com", "commit", "-q", "--allow-empty", "-m", "init");
+  return dir;
+}
+
+/**
+ * A stand-in `claude` executable that logs its arguments and answers every
+ * turn like `fixture`, taking `exitDelayMs` to stop on SIGTERM. Returns the
+ * env that puts it first on PATH, and `argv()` for the argument lists of the
+ * runs so far (each logged once the process is ready for signals).
+ */
+function fakeClaude({ fixture = "hello.jsonl", exitDelayMs = 0 } = {}) {
+  const dir = tmpDir();
+  const log = path.join(dir, "argv.jsonl");
+  fs.writeFileSync(path.join(dir, "claude"), `#!${process.execPath}
+const fs = require("fs");
+const readline = require("readline");
+process.on("SIGTERM", () => setTimeout(() => process.exit(143), ${exitDelayMs}));
+fs.appendFileSync(${JSON.stringify(log)}, JSON.stringify(process.argv.slice(2)) + "\\n");
+const steps = fs.readFileSync(${JSON.stringify(path.join(FIXTURES, fixture))}, "utf-8")
+  .split("\\n").filter(Boolean).map(line => JSON.parse(line));
+const prompt = steps.findIndex(s => s.kind === "stdin");
+const play = (from, to) => steps.slice(from, to).filter(s => s.kind === "stdout")
+  .forEach(s => process.stdout.write(JSON.stringify(s.event) + "\\n"));
+play(0, prompt);
+readline.createInterface({ input: process.stdin }).once("line", () => play(prompt + 1));
+`, { mode: 0o755 });
+  return {
+    log,
+    env:  { PATH: `${dir}${path.delimiter}${process.env.PATH}` },
+    argv: () => fs.readFileSync(log, "utf-8").trim().split("\n").map(line => JSON.parse(line)),
+  };
+}
+
+/** The value following `flag` in an argument list. */
+function flagValue(argv, flag) {
+  const i = argv.indexOf(flag);
+  return i < 0 ? undefined : argv[i + 1];
+}
+
+async function runTurn(client, threadId, content) {
+  const { turn_id } = await client.call("turn/start", { thread_id: threadId, content });
+  const completed = await client.waitFor("turn/completed", p => p.turn_id === turn_id);
+  return { turn_id, completed };
+}
+
+let client;
+
+before(() => { client = new Client(); });
+after(async () => {
+  await client.close();
+  for (const dir of tmpDirs) fs.rmSync(dir, { recursive: true, force: true });
+});
+
+test("initialize reports the replay runner", async () => {
+  const result = await client.call("initialize", { client: { name: "e2e", version: "0" } });
+  assert.equal(result.server.runner, "replay");
+  assert.ok(result.capabilities);
+});
+
+test("a turn streams items and completes with usage", async () => {
+  const { thread_id } = await client.call("thread/start", { cwd: tmpDir() });
+  const { turn_id, completed } = await runTurn(client, thread_id, "Say hello");
+
+  assert.equal(completed.status, "completed");
+  assert.equal(completed.usage.cost_usd, 0.0123);
+  assert.equal(completed.usage.output_tokens, 12);
+
+  const methods = client.turnEvents(turn_id).map(n => n.method);
+  assert.equal(methods[0], "turn/started");
+  assert.equal(methods.at(-1), "turn/completed");
+
+  const texts = client.turnEvents(turn_id)
+    .filter(n => n.method === "item/created" && n.params.item.item.type === "text")
+    .map(n => n.params.item.item.text);
+  assert.deepEqual(texts, ["Hello! How can I help you today?"]);
+
+  const resumed = await client.call("thread/resume", { thread_id });
+  assert.equal(resumed.turns.length, 1);
+  assert.equal(resumed.turns[0].status, "completed");
+  assert.equal(resumed.cli_session_id, "7f3c2a10-4b5e-4c8d-9a61-2f0e8b7d1c34");
+});
+
+test("file edits become file_change items", async () => {
+  const cwd = tmpDir();
+  const { thread_id } = await client.call("thread/start", { cwd });
+  const { turn_id, completed } = await runTurn(client, thread_id, "Create notes.txt with a todo list");
+
+  assert.equal(completed.status, "completed");
+  assert.deepEqual(completed.files_changed, ["notes.txt"]);
+  assert.match(fs.readFileSync(path.join(cwd, "notes.txt"), "utf-8"), /write tests/);
+
+  const change = client.turnEvents(turn_id)
+    .map(n => n.params.item?.item)
+    .find(i => i?.type === "file_change");
+  assert.equal(change.path, "notes.txt");
+  assert.equal(change.operation, "create");
+});
+
+test("tool approvals round-trip through approval/respond", async () => {
+  const { thread_id } = await client.call("thread/start", { cwd: tmpDir() });
+  const { turn_id } = await client.call("turn/start", { thread_id, content: "List the files here" });
+
+  const request = await client.waitFor("approval/requested", p => p.turn_id === turn_id);
+  assert.equal(request.tool_name, "Bash");
+  assert.deepEqual(request.input, { command: "ls", description: "List files" });
+
+  await client.call("approval/respond", { request_id: request.request_id, decision: "allow" });
+  const resolved = await client.waitFor("approval/resolved", p => p.request_id === request.request_id);
+  assert.equal(resolved.decision, "allow");
+
+  const completed = await client.waitFor("turn/completed", p => p.turn_id === turn_id);
+  assert.equal(completed.status, "completed");
+  const output = client.turnEvents(turn_id)
+    .map(n => n.params.item?.item)
+    .find(i => i?.type === "command_output");
+  assert.equal(output.command, "ls");
+  assert.equal(output.stdout, "README.md\nnotes.txt");
+});
+
+test("approval/respond without a request_id changes the thread's permission mode", async () => {
+  const { thread_id } = await client.call("thread/start", { cwd: tmpDir() });
+  await assert.rejects(client.call("approval/respond", { thread_id, approved: true, permission_mode: "yolo" }),
+    { code: -32602 });
+  assert.equal((await client.call("thread/resume", { thread_id })).permission_mode, "default");
+
+  const upgraded = await client.call("approval/respond", { thread_id, approved: true, permission_mode: "dontAsk" });
+  assert.equal(upgraded.permission_mode, "dontAsk");
+});
+
+test("turn/steer reaches the running turn", async () => {
+  const { thread_id } = await client.call("thread/start", { cwd: tmpDir() });
+  const { turn_id } = await client.call("turn/start", { thread_id, content: "Write a haiku about rain" });
+
+  // The approval holds the turn open while we steer
+  const request = await client.waitFor("approval/requested", p => p.turn_id === turn_id);
+  await client.call("turn/steer", { thread_id, content: "Make it about snow instead" });
+  await client.call("approval/respond", { request_id: request.request_id, decision: "allow" });
+
+  const steered = await client.waitFor("turn/steered", p => p.turn_id === turn_id);
+  assert.deepEqual(steered.content, [{ type: "text", text: "Make it about snow instead" }]);
+
+  const completed = await client.waitFor("turn/completed", p => p.turn_id === turn_id);
+  assert.equal(completed.status, "completed");
+  // total_cost_usd is cumulative: the last result wins
+  assert.equal(completed.usage.cost_usd, 0.0412);
+  assert.equal(completed.usage.output_tokens, 88);
+
+  const texts = client.turnEvents(turn_id)
+    .filter(n => n.method === "item/created" && n.params.item.item.type === "text")
+    .map(n => n.params.item.item.text);
+  assert.equal(texts.length, 2);
+  assert.match(texts[1], /^Snow falls/);
+});
+
+test("attachments are checked at turn/start and reach the CLI as they were then", async () => {
+  const claude = fakeClaude();
+  const recordDir = tmpDir();
+  const cwd = tmpDir();
+  const outside = path.join(tmpDir(), "secret.txt");
+  fs.writeFileSync(path.join(cwd, "notes.txt"), "buy milk\n");
+  fs.writeFileSync(path.join(cwd, "big.txt"), "x".repeat(1024 * 1024 + 1));
+  fs.writeFileSync(outside, "secret\n");
+  fs.symlinkSync(outside, path.join(cwd, "link.txt"));
+  const server = new Client(["--record", recordDir], { replay: false, env: claude.env });
+  try {
+    await server.call("initialize", { client: { name: "e2e", version: "0" } });
+    const { thread_id } = await server.call("thread/start", { cwd });
+    const start = (content) => server.call("turn/start", { thread_id, content });
+
+    for (const file of [path.relative(cwd, outside), outside, "link.txt"]) {
+      await assert.rejects(start([{ type: "file", path: file }]), { code: -32602, message: /outside the workspace/ });
+    }
+    await assert.rejects(start([{ type: "file", path: "big.txt" }]), { code: -32602, message: /the limit is 1048576/ });
+    await assert.rejects(start([{ type: "image", media_type: "image/bmp", data: "Qk0=" }]), { code: -32602, message: /media_type/ });
+
+    const pixel = "iVBORw0KGgo=";
+    const { turn_id } = await start([
+      { type: "text", text: "What is on my list?" },
+      { type: "file", path: "notes.txt" },
+      { type: "image", media_type: "image/png", data: pixel },
+    ]);
+    // Edits after turn/start don't change what is sent
+    fs.writeFileSync(path.join(cwd, "notes.txt"), "sell milk\n");
+    assert.equal((await server.waitFor("turn/completed", p => p.turn_id === turn_id)).status, "completed");
+
+    const [recording] = fs.readdirSync(recordDir);
+    const steps = fs.readFileSync(path.join(recordDir, recording), "utf-8").trim().split("\n").map(line => JSON.parse(line));
+    assert.deepEqual(steps.find(s => s.kind === "stdin").message.message.content, [
+      { type: "text", text: "What is on my list?" },
+      { type: "text", text: '<file path="notes.txt">\nbuy milk\n</file>' },
+      { type: "image", source: { type: "base64", media_type: "image/png", data: pixel } },
+    ]);
+    const { turns } = await server.call("thread/resume", { thread_id });
+    assert.deepEqual(turns[0].content[1], { type: "file", path: "notes.txt", size: 9 });
+  } finally {
+    await server.close();
+  }
+});
+
+test("a prompt without a fixture fails the turn", async () => {
+  const { thread_id } = await client.call("thread/start", { cwd: tmpDir() });
+  const { turn_id } = await client.call("turn/start", { thread_id, content: "Something nobody recorded" });
+  const error = await client.waitFor("turn/error", p => p.turn_id === turn_id);
+  assert.match(error.error, /no fixture matches prompt/);
+
+  const resumed = await client.call("thread/resume", { thread_id });
+  assert.equal(resumed.turns[0].status, "error");
+});
+
+test("thread/fork and thread/delete", async () => {
+  const { thread_id } = await client.call("thread/start", { cwd: tmpDir() });
+  await assert.rejects(client.call("thread/fork", { thread_id }), { code: -32602 });
+
+  await runTurn(client, thread_id, "Say hello");
+  const fork = await client.call("thread/fork", { thread_id });
+  assert.notEqual(fork.thread_id, thread_id);
+
+  const { threads } = await client.call("thread/list", {});
+  const ids = threads.map(t => t.thread_id);
+  assert.ok(ids.includes(thread_id));
+  assert.ok(ids.includes(fork.thread_id));
+
+  await client.call("thread/delete", { thread_id: fork.thread_id });
+  await assert.rejects(client.call("thread/resume", { thread_id: fork.thread_id }));
+});
+
+test("thread/delete right after turn/interrupt stays deleted", async () => {
+  // A claude that takes a moment to stop, so the turn outlives turn/interrupt
+  const claude = fakeClaude({ fixture: "stall.jsonl", exitDelayMs: 300 });
+  const cwd = gitRepo();
+  const dataDir = tmpDir();
+  const server = new Client([], { replay: false, env: claude.env, dataDir });
+  try {
+    await server.call("initialize", { client: { name: "e2e", version: "0" } });
+    const { thread_id } = await server.call("thread/start", { cwd });
+    await server.call("turn/start", { thread_id, content: "Think about it for a long time" });
+    while (!fs.existsSync(claude.log)) await new Promise((resolve) => setTimeout(resolve, 20));
+
+    await server.call("turn/interrupt", { thread_id });
+    assert.deepEqual(await server.call("thread/delete", { thread_id }), { thread_id, deleted: true });
+    // Nothing the interrupted turn does on its way out brings the thread back
+    while ((await server.call("scheduler/stats", {})).running > 0) {
+      await new Promise((resolve) => setTimeout(resolve, 20));
+    }
+    const { threads } = await server.call("thread/list", {});
+    assert.ok(!threads.some(t => t.thread_id === thread_id));
+    assert.ok(!fs.existsSync(path.join(dataDir, `${thread_id}.jsonl`)));
+    assert.equal(execFileSync("git", ["for-each-ref", "refs/claude-app-server"], { cwd, encoding: "utf-8" }), "");
+  } finally {
+    await server.close();
+  }
+});
+
+test("threads in --data-dir survive a crash, with unfinished turns settled", async () => {
+  const dataDir = tmpDir();
+  const crashed = new Client([], { dataDir });
+  await crashed.call("initialize", { client: { name: "e2e", version: "0" } });
+  const { thread_id } = await crashed.call("thread/start", { cwd: tmpDir() });
+  const done = await runTurn(crashed, thread_id, "Say hello");
+  const active = await crashed.call("turn/start", { thread_id, content: "List the files here" });
+  await crashed.waitFor("approval/requested", p => p.turn_id === active.turn_id);
+  const queued = await crashed.call("turn/start", { thread_id, content: "Say hello", queue: true });
+  assert.equal(queued.status, "queued");
+  await new Promise((resolve) => crashed.proc.once("exit", resolve).kill("SIGKILL"));
+
+  const server = new Client([], { dataDir });
+  try {
+    await server.call("initialize", { client: { name: "e2e", version: "0" } });
+    const { threads } = await server.call("thread/list", {});
+    assert.deepEqual(threads.map(t => t.thread_id), [thread_id]);
+
+    const resumed = await server.call("thread/resume", { thread_id });
+    assert.deepEqual(resumed.turns.map(t => [t.id, t.status]), [
+      [done.turn_id, "completed"],
+      [active.turn_id, "interrupted"],
+      [queued.turn_id, "cancelled"],
+    ]);
+    assert.equal(resumed.turns[1].error, "Server restarted while the turn was running.");
+    assert.equal(resumed.turns[2].error, "Server restarted before the turn could start.");
+    assert.deepEqual(resumed.turns[0].items.filter(i => i.item.type === "text").map(i => i.item.text),
+      ["Hello! How can I help you today?"]);
+    assert.equal(resumed.turns[0].usage.cost_usd, 0.0123);
+
+    // The thread carries on where it left off
+    assert.equal((await runTurn(server, thread_id, "Say hello")).completed.status, "completed");
+  } finally {
+    await server.close();
+  }
+});
+
+test("turn/revert restores files from checkpoints", async () => {
+  const cwd = gitRepo();
+  fs.writeFileSync(path.join(cwd, "keep.txt"), "mine\n");
+  const { thread_id } = await client.call("thread/start", { cwd });
+
+  const first  = await runTurn(client, thread_id, "Say hello");
+  const second = await runTurn(client, thread_id, "Create notes.txt with a todo list");
+  assert.equal(second.completed.status, "completed");
+  assert.ok(fs.existsSync(path.join(cwd, "notes.txt")));
+
+  const result = await client.call("turn/revert", { turn_id: second.turn_id });
+  assert.deepEqual(result.reverted_turn_ids, [second.turn_id]);
+  assert.deepEqual(result.restored_paths, ["notes.txt"]);
+  assert.ok(!fs.existsSync(path.join(cwd, "notes.txt")));
+  // Files the agent never touched are left alone
+  assert.equal(fs.readFileSync(path.join(cwd, "keep.txt"), "utf-8"), "mine\n");
+
+  const resumed = await client.call("thread/resume", { thread_id });
+  assert.equal(resumed.turns.find(t => t.id === first.turn_id).reverted_at, undefined);
+  assert.ok(resumed.turns.find(t => t.id === second.turn_id).reverted_at);
+});
+
+test("thread/rollback refuses to overwrite files edited since the turn", async () => {
+  const cwd = gitRepo();
+  const { thread_id } = await client.call("thread/start", { cwd });
+  await client.call("thread/subscribe", { thread_id });
+  const first = await runTurn(client, thread_id, "Say hello");
+  await runTurn(client, thread_id, "Create notes.txt with a todo list");
+  const notes = path.join(cwd, "notes.txt");
+  const left = fs.readFileSync(notes, "utf-8");
+
+  fs.writeFileSync(notes, "edited by hand\n");
+  await assert.rejects(client.call("thread/rollback", { thread_id, to_turn_id: first.turn_id }), {
+    code: -32008,
+    data: { paths: ["notes.txt"] },
+  });
+  assert.equal(fs.readFileSync(notes, "utf-8"), "edited by hand\n");
+
+  fs.writeFileSync(notes, left);
+  const result = await client.call("thread/rollback", { thread_id, to_turn_id: first.turn_id });
+  assert.deepEqual(result.restored_paths, ["notes.txt"]);
+  assert.ok(!fs.existsSync(notes));
+  const rolledBack = await client.waitFor("thread/rolled_back", p => p.thread_id === thread_id);
+  assert.deepEqual(rolledBack.reverted_turn_ids, result.reverted_turn_ids);
+});
+
+test("scheduler/stats counts running and queued turns", async () => {
+  const single = new Client(["--max-concurrent", "1"]);
+  try {
+    await single.call("initialize", { client: { name: "e2e", version: "0" } });
+    const first = await single.call("thread/start", { cwd: tmpDir() });
+    const second = await single.call("thread/start", { cwd: tmpDir() });
+    const running = await single.call("turn/start", { thread_id: first.thread_id, content: "List the files here" });
+    const request = await single.waitFor("approval/requested", p => p.turn_id === running.turn_id);
+    const queued = await single.call("turn/start", { thread_id: second.thread_id, content: "Say hello" });
+    assert.deepEqual(queued, { turn_id: queued.turn_id, status: "queued", position: 1 });
+    assert.deepEqual(await single.call("scheduler/stats", {}),
+      { running: 1, queued: 1, max_concurrent: 1, max_per_connection: null });
+
+    await single.call("approval/respond", { request_id: request.request_id, decision: "allow" });
+    await single.waitFor("turn/completed", p => p.turn_id === queued.turn_id);
+    assert.deepEqual(await single.call("scheduler/stats", {}),
+      { running: 0, queued: 0, max_concurrent: 1, max_per_connection: null });
+  } finally {
+    await single.close();
+  }
+});
+
+test("--max-per-connection queues a connection's extra turns, and turn/cancel drops them", async () => {
+  const limited = new Client(["--max-per-connection", "1"]);
+  try {
+    await limited.call("initialize", { client: { name: "e2e", version: "0" } });
+    const first = await limited.call("thread/start", { cwd: tmpDir() });
+    const second = await limited.call("thread/start", { cwd: tmpDir() });
+    const running = await limited.call("turn/start", { thread_id: first.thread_id, content: "List the files here" });
+    const request = await limited.waitFor("approval/requested", p => p.turn_id === running.turn_id);
+
+    const waiting = await limited.call("turn/start", { thread_id: second.thread_id, content: "Say hello" });
+    assert.equal(waiting.status, "queued");
+    await assert.rejects(limited.call("turn/start", { thread_id: first.thread_id, content: "Say hello" }), { code: -32003 });
+    const next = await limited.call("turn/start", { thread_id: first.thread_id, content: "Say hello", queue: true });
+    assert.deepEqual([next.status, next.position], ["queued", 2]);
+
+    assert.deepEqual(await limited.call("turn/cancel", { turn_id: waiting.turn_id }), { turn_id: waiting.turn_id, status: "cancelled" });
+    await limited.waitFor("turn/cancelled", p => p.turn_id === waiting.turn_id);
+    await limited.waitFor("turn/queued", p => p.turn_id === next.turn_id && p.position === 1);
+    await assert.rejects(limited.call("turn/cancel", { turn_id: running.turn_id }), { code: -32602 });
+
+    await limited.call("approval/respond", { request_id: request.request_id, decision: "allow" });
+    const completed = await limited.waitFor("turn/completed", p => p.turn_id === next.turn_id);
+    assert.equal(completed.status, "completed");
+    const resumed = await limited.call("thread/resume", { thread_id: second.thread_id });
+    assert.equal(resumed.turns[0].status, "cancelled");
+  } finally {
+    await limited.close();
+  }
+});
+
+test("turn/interrupt stops a turn waiting on approval", async () => {
+  const { thread_id } = await client.call("thread/start", { cwd: tmpDir() });
+  const { turn_id } = await client.call("turn/start", { thread_id, content: "List the files here" });
+  await client.waitFor("approval/requested", p => p.turn_id === turn_id);
+
+  assert.deepEqual(await client.call("turn/interrupt", { thread_id }), { turn_id, status: "interrupted" });
+  const completed = await client.waitFor("turn/completed", p => p.turn_id === turn_id);
+  assert.equal(completed.status, "interrupted");
+  await assert.rejects(client.call("turn/interrupt", { thread_id }), { code: -32004 });
+});
+
+test("--idle-timeout stops a silent turn but not one waiting on approval", async () => {
+  const impatient = new Client(["--idle-timeout", "0.3"]);
+  try {
+    await impatient.call("initialize", { client: { name: "e2e", version: "0" } });
+    const { thread_id } = await impatient.call("thread/start", { cwd: tmpDir() });
+    const stalled = await runTurn(impatient, thread_id, "Think about it for a long time");
+    assert.equal(stalled.completed.status, "timeout");
+    assert.match(stalled.completed.error, /No output from claude for 0.3s/);
+
+    const { turn_id } = await impatient.call("turn/start", { thread_id, content: "List the files here" });
+    const request = await impatient.waitFor("approval/requested", p => p.turn_id === turn_id);
+    await new Promise(r => setTimeout(r, 600));
+    await impatient.call("approval/respond", { request_id: request.request_id, decision: "allow" });
+    assert.equal((await impatient.waitFor("turn/completed", p => p.turn_id === turn_id)).status, "completed");
+  } finally {
+    await impatient.close();
+  }
+});
+
+test("--turn-timeout stops a turn even while it waits on approval", async () => {
+  const hurried = new Client(["--turn-timeout", "0.3", "--idle-timeout", "0"]);
+  try {
+    await hurried.call("initialize", { client: { name: "e2e", version: "0" } });
+    const { thread_id } = await hurried.call("thread/start", { cwd: tmpDir() });
+    const { completed } = await runTurn(hurried, thread_id, "List the files here");
+    assert.equal(completed.status, "timeout");
+    assert.match(completed.error, /exceeded the 0.3s time limit/);
+    const resumed = await hurried.call("thread/resume", { thread_id });
+    assert.equal(resumed.turns[0].status, "timeout");
+  } finally {
+    await hurried.close();
+  }
+});
+
+test("system prompts from the thread, its profile and the server reach the CLI in order", async () => {
+  const claude = fakeClaude();
+  const config = path.join(tmpDir(), "config.json");
+  fs.writeFileSync(config, JSON.stringify({
+    profiles: { review: { description: "Code review", append_system_prompt: "Only review.", allowed_tools: ["Read"] } },
+  }));
+  const server = new Client(["--config", config, "--append-system-prompt", "House rules."], { replay: false, env: claude.env });
+  try {
+    await server.call("initialize", { client: { name: "e2e", version: "0" } });
+    const { profiles } = await server.call("profile/list", {});
+    assert.deepEqual(profiles.map(p => [p.name, p.description]), [["review", "Code review"]]);
+    await assert.rejects(server.call("thread/start", { cwd: tmpDir(), profile: "nope" }), { code: -32602 });
+
+    const { thread_id, profile } = await server.call("thread/start", {
+      cwd: tmpDir(), profile: "review", system_prompt: "You review code.", append_system_prompt: "Be brief.",
+    });
+    assert.equal(profile, "review");
+    assert.equal((await runTurn(server, thread_id, "Say hello")).completed.status, "completed");
+    await server.call("thread/update", { thread_id, system_prompt: null, append_system_prompt: null });
+    await runTurn(server, thread_id, "Say hello");
+
+    const [first, second] = claude.argv();
+    assert.equal(flagValue(first, "--system-prompt"), "You review code.");
+    assert.equal(flagValue(first, "--append-system-prompt"), "Only review.\n\nBe brief.\n\nHouse rules.");
+    assert.equal(flagValue(first, "--allowedTools"), "Read");
+    assert.equal(flagValue(second, "--system-prompt"), undefined);
+    assert.equal(flagValue(second, "--append-system-prompt"), "Only review.\n\nHouse rules.");
+    // The operator's prompt is not shown to clients
+    assert.ok(!JSON.stringify(await server.call("thread/resume", { thread_id })).includes("House rules"));
+  } finally {
+    await server.close();
+  }
+});
+
+test("model aliases resolve to catalog ids, with the fallback passed alongside", async () => {
+  const claude = fakeClaude();
+  const config = path.join(tmpDir(), "config.json");
+  fs.writeFileSync(config, JSON.stringify({ model: "sonnet", fallback_model: "haiku" }));
+  const server = new Client(["--config", config], { replay: false, env: claude.env });
+  try {
+    await server.call("initialize", { client: { name: "e2e", version: "0" } });
+    const listed = await server.call("model/list", {});
+    assert.equal(listed.default_model, "claude-sonnet-4-6");
+    assert.equal(listed.fallback_model, "claude-haiku-4-5");
+
+    const unknown = await server.call("thread/start", { cwd: tmpDir(), model: "gpt-4" }).catch(e => e);
+    assert.equal(unknown.code, -32602);
+    assert.ok(unknown.data.available.includes("opus"));
+
+    const { thread_id: plain } = await server.call("thread/start", { cwd: tmpDir() });
+    await runTurn(server, plain, "Say hello");
+    const { thread_id, model } = await server.call("thread/start", { cwd: tmpDir(), model: "Opus" });
+    assert.equal(model, "claude-opus-4-6");
+    await runTurn(server, thread_id, "Say hello");
+    await assert.rejects(server.call("turn/start", { thread_id, content: "Say hello", model: "gpt-4" }), { code: -32602 });
+    // A turn's own model wins, and a fallback equal to it is left out
+    const { turn_id } = await server.call("turn/start", { thread_id, content: "Say hello", model: "haiku" });
+    await server.waitFor("turn/completed", p => p.turn_id === turn_id);
+
+    const runs = claude.argv();
+    assert.equal(runs.length, 3);
+    assert.deepEqual(runs.map(argv => [flagValue(argv, "--model"), flagValue(argv, "--fallback-model")]), [
+      ["claude-sonnet-4-6", "claude-haiku-4-5"],
+      ["claude-opus-4-6",   "claude-haiku-4-5"],
+      ["claude-haiku-4-5",  undefined],
+    ]);
+  } finally {
+    await server.close();
+  }
+});
+
+test("usage is reported per thread and in the summary", async () => {
+  const { thread_id } = await client.call("thread/start", { cwd: tmpDir() });
+  const since = Date.now();
+  await runTurn(client, thread_id, "Say hello");
+  await runTurn(client, thread_id, "Say hello");
+
+  const usage = await client.call("thread/usage", { thread_id });
+  assert.equal(usage.turns.length, 2);
+  assert.equal(usage.usage.cost_usd, 0.0246);
+  assert.equal(usage.usage.cache_creation_input_tokens, 3660);
+
+  const summary = await client.call("usage/summary", { since });
+  assert.ok(summary.turn_count >= 2);
+  assert.ok(summary.connection.cost_usd >= 0.0246);
+});
+
+test("a thread over its budget refuses new turns", async () => {
+  const { thread_id } = await client.call("thread/start", { cwd: tmpDir(), budget_usd: 0.01 });
+  const { turn_id } = await runTurn(client, thread_id, "Say hello");
+  const { scope, limit_usd, spent_usd } = await client.waitFor("turn/budget_exceeded", p => p.turn_id === turn_id);
+  assert.deepEqual({ scope, limit_usd, spent_usd }, { scope: "thread", limit_usd: 0.01, spent_usd: 0.0123 });
+
+  await assert.rejects(client.call("turn/start", { thread_id, content: "Say hello" }), {
+    code: -32009,
+    data: { scope: "thread", limit_usd: 0.01, spent_usd: 0.0123 },
+  });
+  // Other threads are not affected
+  const other = await client.call("thread/start", { cwd: tmpDir() });
+  assert.equal((await runTurn(client, other.thread_id, "Say hello")).completed.status, "completed");
+});
+
+test("thread/start cannot raise --thread-budget", async () => {
+  const capped = new Client(["--thread-budget", "0.05"]);
+  try {
+    await capped.call("initialize", { client: { name: "e2e", version: "0" } });
+    await assert.rejects(capped.call("thread/start", { cwd: tmpDir(), budget_usd: 1 }), {
+      code: -32602,
+      data: { budget_usd: 1, thread_usd: 0.05 },
+    });
+    const { thread_id } = await capped.call("thread/start", { cwd: tmpDir(), budget_usd: 0.01 });
+    assert.equal((await capped.call("thread/usage", { thread_id })).budget_usd, 0.01);
+  } finally {
+    await capped.close();
+  }
+});
+
+test("--connection-budget caps one connection's spending", async () => {
+  const capped = new Client(["--connection-budget", "0.02"]);
+  try {
+    await capped.call("initialize", { client: { name: "e2e", version: "0" } });
+    const { thread_id } = await capped.call("thread/start", { cwd: tmpDir() });
+    await runTurn(capped, thread_id, "Say hello");
+    await runTurn(capped, thread_id, "Say hello");
+    const error = await capped.call("turn/start", { thread_id, content: "Say hello" }).catch(e => e);
+    assert.equal(error.code, -32009);
+    assert.equal(error.data.scope, "connection");
+    assert.equal((await capped.call("usage/summary", {})).budgets.connection_usd, 0.02);
+  } finally {
+    await capped.close();
+  }
+});
+
+test("thread/replay returns buffered notifications", async () => {
+  const { thread_id } = await client.call("thread/start", { cwd: tmpDir() });
+  const { turn_id } = await runTurn(client, thread_id, "Say hello");
+
+  const replay = await client.call("thread/replay", { thread_id, after_seq: 0 });
+  const methods = replay.events.map(e => e.method);
+  assert.equal(methods[0], "turn/started");
+  assert.equal(methods.at(-1), "turn/completed");
+  assert.equal(replay.events.at(-1).params.turn_id, turn_id);
+  assert.equal(replay.last_seq, replay.events.at(-1).params.seq);
+});
+
+test("thread/update validates and stores tool rules", async () => {
+  const { thread_id } = await client.call("thread/start", { cwd: tmpDir(), allowed_tools: ["Read"] });
+  await assert.rejects(client.call("thread/update", { thread_id, disallowed_tools: ["Bsh"] }), { code: -32602 });
+
+  const updated = await client.call("thread/update", {
+    thread_id, permission_mode: "acceptEdits", allowed_tools: ["Bash(git status:*)"], disallowed_tools: ["WebFetch"],
+  });
+  assert.deepEqual(updated.allowed_tools, ["Bash(git status:*)"]);
+
+  const resumed = await client.call("thread/resume", { thread_id });
+  assert.equal(resumed.permission_mode, "acceptEdits");
+  assert.deepEqual(resumed.disallowed_tools, ["WebFetch"]);
+});
+
+test("client MCP servers must be local, and commands need --allow-client-mcp-commands", async () => {
+  const cwd = tmpDir();
+  const tracker = { command: "tracker-mcp", args: ["--stdio"] };
+  await assert.rejects(client.call("thread/start", { cwd, mcp_servers: { tracker } }), { code: -32015 });
+  await assert.rejects(
+    client.call("thread/start", { cwd, mcp_servers: { docs: { url: "https://mcp.example.com/docs" } } }),
+    { code: -32602 },
+  );
+  const { thread_id } = await client.call("thread/start", { cwd, mcp_servers: { docs: { url: "http://127.0.0.1:7301/mcp" } } });
+  await assert.rejects(client.call("thread/update", { thread_id, mcp_servers: { tracker } }), { code: -32015 });
+
+  const trusting = new Client(["--allow-client-mcp-commands"]);
+  try {
+    await trusting.call("initialize", { client: { name: "e2e", version: "0" } });
+    const started = await trusting.call("thread/start", { cwd, mcp_servers: { tracker } });
+    assert.deepEqual((await trusting.call("thread/resume", { thread_id: started.thread_id })).mcp_servers, ["tracker"]);
+  } finally {
+    await trusting.close();
+  }
+});
+
+test("numeric flags and settings out of range stop the server", () => {
+  const run = (args, cwd = tmpDir()) => {
+    try {
+      execFileSync(process.execPath, [path.join(ROOT, "dist", "index.js"), "--replay", FIXTURES, ...args], {
+        cwd, env: { ...process.env, CLAUDE_APP_SERVER_HOME: tmpDir() }, input: "", stdio: "pipe",
+      });
+      return { status: 0, stderr: "" };
+    } catch (err) {
+      return { status: err.status, stderr: String(err.stderr) };
+    }
+  };
+  for (const args of [["--max-concurrent", "abc"], ["--approval-timeout", "0"], ["--turn-timeout", "x"],
+                      ["--daily-budget", "-1"], ["--port", "70000"], ["--replay-buffer", "1.5"]]) {
+    const { status, stderr } = run(args);
+    assert.equal(status, 2, args.join(" "));
+    assert.match(stderr, new RegExp(`${args[0]} must be`));
+  }
+
+  const cwd = tmpDir();
+  fs.writeFileSync(path.join(cwd, ".claude-app-server.json"), JSON.stringify({ max_concurrent: 0 }));
+  const { status, stderr } = run([], cwd);
+  assert.equal(status, 1);
+  assert.match(stderr, /"max_concurrent" must be an integer of at least 1/);
+});
+
+test("thread/archive hides threads from thread/list", async () => {
+  const { thread_id } = await client.call("thread/start", { cwd: tmpDir() });
+  const archived = await client.call("thread/archive", { thread_id });
+  assert.equal(archived.archived, true);
+
+  const { threads } = await client.call("thread/list", {});
+  assert.ok(!threads.some(t => t.thread_id === thread_id));
+});
+
+test("thread/list matches cwd after resolving it", async () => {
+  const cwd = tmpDir();
+  const { thread_id } = await client.call("thread/start", { cwd });
+  for (const spelling of [cwd, `${cwd}/`, path.join(cwd, "sub", "..") + "/."]) {
+    const { threads } = await client.call("thread/list", { cwd: spelling });
+    assert.deepEqual(threads.map(t => t.thread_id), [thread_id], spelling);
+  }
+});
+
+test("discovery methods list models and skills", async () => {
+  const { models } = await client.call("model/list", {});
+  assert.ok(models.length > 0);
+  const { tools, commands, skills } = await client.call("skills/list", {});
+  assert.ok(tools.some(t => t.name === "Read"));
+  assert.ok(Array.isArray(commands) && Array.isArray(skills));
+});
+
+test("batches get one response per request", async () => {
+  const responses = await client.batch([
+    { jsonrpc: "2.0", id: "a", method: "thread/list", params: {} },
+    { jsonrpc: "2.0", id: "b", method: "no/such_method" },
+  ]);
+  assert.equal(responses.length, 2);
+  assert.ok(responses.find(r => r.id === "a").result);
+  assert.equal(responses.find(r => r.id === "b").error.code, -32601);
+});
+
+test("threads are confined to --workspace roots", async () => {
+  const root = tmpDir();
+  const outside = tmpDir();
+  fs.mkdirSync(path.join(root, "proj"));
+  fs.symlinkSync(outside, path.join(root, "escape"));
+
+  const confined = new Client(["--workspace", root]);
+  try {
+    await confined.call("initialize", { client: { name: "e2e", version: "0" } });
+    const { workspaces } = await confined.call("workspace/list", {});
+    assert.deepEqual(workspaces[0].projects.map(p => p.name), ["proj"]);
+
+    await confined.call("thread/start", { cwd: path.join(root, "proj") });
+    for (const cwd of [outside, path.join(root, "escape"), path.join(root, "proj", "..", "..")]) {
+      await assert.rejects(confined.call("thread/start", { cwd }), { code: -32012 });
+    }
+  } finally {
+    await confined.close();
+  }
+});
+
+test("fs methods read the workspace and hide ignored files", async () => {
+  const cwd = gitRepo();
+  fs.writeFileSync(path.join(cwd, ".gitignore"), "*.log\n");
+  fs.writeFileSync(path.join(cwd, "notes.md"), "first line\nneedle here\n");
+  fs.writeFileSync(path.join(cwd, "debug.log"), "needle\n");
+  const { thread_id } = await client.call("thread/start", { cwd });
+
+  const { entries } = await client.call("fs/list", { thread_id });
+  assert.deepEqual(entries.map(e => e.name), [".gitignore", "notes.md"]);
+
+  const read = await client.call("fs/read", { thread_id, path: "notes.md", offset: 11 });
+  assert.equal(read.content, "needle here\n");
+  assert.equal(read.eof, true);
+
+  const { matches } = await client.call("fs/search", { thread_id, query: "needle" });
+  assert.deepEqual(matches.map(m => [m.path, m.line]), [["notes.md", 2]]);
+  const regex = await client.call("fs/search", { thread_id, query: "^(n|e)+dle", regex: true });
+  assert.deepEqual(regex.matches.map(m => [m.path, m.line, m.column]), [["notes.md", 2, 1]]);
+  await assert.rejects(client.call("fs/search", { thread_id, query: "(", regex: true }), { code: -32602 });
+
+  await assert.rejects(client.call("fs/read", { thread_id, path: "debug.log" }), { code: -32013 });
+  await assert.rejects(client.call("fs/stat", { thread_id, path: "debug.log" }), { code: -32013 });
+  await assert.rejects(client.call("fs/read", { thread_id, path: "../x" }), { code: -32013 });
+  await assert.rejects(client.call("fs/stat", { thread_id, path: "missing.txt" }), { code: -32014 });
+});
+
+test("git methods stage and commit, recorded as thread items", async () => {
+  const cwd = gitRepo();
+  execFileSync("git", ["config", "user.name", "test"], { cwd });
+  execFileSync("git", ["config", "user.email", "test@example.com"], { cwd });
+  const { thread_id } = await client.call("thread/start", { cwd });
+  await client.call("thread/subscribe", { thread_id });
+
+  fs.writeFileSync(path.join(cwd, "new.txt"), "hello\n");
+  const status = await client.call("git/status", { thread_id });
+  assert.deepEqual(status.files, [{ path: "new.txt", staged: null, unstaged: "untracked" }]);
+
+  await client.call("git/stage", { thread_id, paths: ["new.txt"] });
+  const { files } = await client.call("git/diff", { thread_id, staged: true });
+  assert.deepEqual(files[0].hunks[0].lines, [{ type: "add", text: "hello", new_line: 1 }]);
+
+  await client.call("thread/update", { thread_id, disallowed_tools: ["Bash(git commit:*)", "Bash(git switch:*)"] });
+  await assert.rejects(client.call("git/commit", { thread_id, message: "Add new.txt" }), { code: -32015 });
+  // Bad params are reported as such, before the permission check
+  await assert.rejects(client.call("git/checkout", { thread_id, branch: "--orphan" }), { code: -32602 });
+  await assert.rejects(client.call("git/checkout", { thread_id, branch: "topic", create: true }), { code: -32015 });
+  await client.call("thread/update", { thread_id, disallowed_tools: null });
+
+  const committed = await client.call("git/commit", { thread_id, message: "Add new.txt" });
+  assert.equal(committed.files_changed, 1);
+  await assert.rejects(client.call("git/commit", { thread_id, message: "again" }), { code: -32016 });
+
+  const created = await client.waitFor("item/created", p => p.turn_id === null && p.item.item.operation === "commit");
+  assert.equal(created.item.item.commit, committed.commit);
+  const resumed = await client.call("thread/resume", { thread_id });
+  assert.deepEqual(resumed.turns, []);
+  assert.deepEqual(resumed.items.map(s => s.item.operation), ["stage", "commit"]);
+});
+
+test("git/* refuses a repository that extends outside the workspace roots", async () => {
+  const repo = gitRepo();
+  const root = path.join(repo, "project");
+  fs.mkdirSync(root);
+  const confined = new Client(["--workspace", root]);
+  try {
+    await confined.call("initialize", { client: { name: "e2e", version: "0" } });
+    const { thread_id } = await confined.call("thread/start", { cwd: root });
+    await assert.rejects(confined.call("git/status", { thread_id }), { code: -32012 });
+  } finally {
+    await confined.close();
+  }
+});
+
+test("$/cancelRequest stops a running fs/search", async () => {
+  const cwd = tmpDir();
+  for (let i = 0; i < 2000; i++) fs.writeFileSync(path.join(cwd, `f${i}.txt`), "nothing to see\n");
+  const { thread_id } = await client.call("thread/start", { cwd });
+
+  const searching = client.call("fs/search", { thread_id, query: "needle" });
+  client.send({ jsonrpc: "2.0", method: "$/cancelRequest", params: { id: client.nextId - 1 } });
+  await assert.rejects(searching, { code: -32800 });
+  assert.equal((await client.call("fs/search", { thread_id, query: "nothing", max_results: 1 })).matches.length, 1);
+});
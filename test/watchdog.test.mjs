@@ -0,0 +1,30 @@
+// Unit tests for process termination (built dist/watchdog.js), against real
+// child processes.
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { spawn } from "node:child_process";
+import { terminate } from "../dist/watchdog.js";
+
+/** A node process that has installed its SIGTERM handling and is idling. */
+async function child(onTerm) {
+  const proc = spawn(process.execPath, ["-e", `${onTerm}; console.log("ready"); setInterval(() => {}, 1000);`], {
+    stdio: ["ignore", "pipe", "ignore"],
+  });
+  await new Promise((resolve) => proc.stdout.once("data", resolve));
+  return proc;
+}
+
+test("terminate() stops a process that exits on SIGTERM without escalating", async () => {
+  const proc = await child(`process.on("SIGTERM", () => process.exit(0))`);
+  await terminate(proc, 5000);
+  assert.equal(proc.exitCode, 0);
+});
+
+test("terminate() sends SIGKILL once the grace period is over", async () => {
+  const proc = await child(`process.on("SIGTERM", () => {})`);
+  const started = Date.now();
+  await terminate(proc, 300);
+  assert.equal(proc.signalCode, "SIGKILL");
+  assert.ok(Date.now() - started >= 290);
+});
@@ -0,0 +1,262 @@
+// End-to-end tests for the WebSocket transport: TLS, device pairing and tokens.
+// Each test starts its own server on a free port, with its own devices file.
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { spawn, execFileSync } from "node:child_process";
+import * as fs from "node:fs";
+import * as net from "node:net";
+import * as os from "node:os";
+import * as path from "node:path";
+import * as tls from "node:tls";
+import { fileURLToPath } from "node:url";
+import WebSocket from "ws";
+
+const ROOT     = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "..");
+const FIXTURES = path.join(ROOT, "test", "fixtures");
+const INDEX    = path.join(ROOT, "dist", "index.js");
+
+function tmpDir(t) {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "claude-app-server-ws-"));
+  t.after(() => fs.rmSync(dir, { recursive: true, force: true }));
+  return dir;
+}
+
+function freePort() {
+  return new Promise((resolve, reject) => {
+    const probe = net.createServer().once("error", reject).listen(0, "127.0.0.1", () => {
+      const { port } = probe.address();
+      probe.close(() => resolve(port));
+    });
+  });
+}
+
+/** A server on a free port; `pairKeys` collects every key it prints. */
+async function startServer(t, { secure = false } = {}) {
+  const home = tmpDir(t);
+  const port = await freePort();
+  const proc = spawn(process.execPath, [INDEX, "--transport", "ws", ...(secure ? [] : ["--no-tls"]),
+    "--port", String(port), "--replay", FIXTURES, "--no-persist"], {
+    stdio: ["ignore", "ignore", "pipe"],
+    cwd:   home,
+    env:   { ...process.env, CLAUDE_APP_SERVER_HOME: home },
+  });
+  t.after(() => new Promise((resolve) => {
+    if (proc.exitCode !== null) return resolve();
+    proc.once("exit", resolve);
+    proc.kill();
+  }));
+
+  const server = { port, home, secure, pairKeys: [], stderr: "" };
+  await new Promise((resolve, reject) => {
+    proc.once("exit", () => reject(new Error(`server exited\n${server.stderr}`)));
+    proc.stderr.on("data", (d) => {
+      server.stderr += d;
+      server.pairKeys = [...server.stderr.matchAll(/pair key: (\S+)/g)].map(m => m[1]);
+      if (server.stderr.includes("listening on")) resolve();
+    });
+  });
+  return server;
+}
+
+/** Minimal JSON-RPC client over a WebSocket; keeps the notifications it receives. */
+class WsClient {
+  static async open(server, token) {
+    const headers = token ? { Authorization: `Bearer ${token}` } : {};
+    // The certificate is self-signed; the TLS test checks its fingerprint instead
+    const ws = new WebSocket(`${server.secure ? "wss" : "ws"}://127.0.0.1:${server.port}`,
+      { headers, rejectUnauthorized: false });
+    const client = new WsClient(ws);
+    await new Promise((resolve, reject) => {
+      ws.once("open", resolve);
+      ws.once("error", reject);
+    });
+    return client;
+  }
+
+  constructor(ws) {
+    this.ws = ws;
+    this.nextId = 1;
+    this.pending = new Map();
+    this.notifications = [];
+    this.waiters = [];
+    this.closed = new Promise((resolve) => ws.once("close", (code) => resolve(code)));
+    ws.on("message", (data) => {
+      const msg = JSON.parse(data.toString());
+      if (msg.id === undefined || msg.id === null) {
+        this.notifications.push(msg);
+        this.waiters = this.waiters.filter(w => !w(msg));
+        return;
+      }
+      this.pending.get(msg.id)?.(msg);
+      this.pending.delete(msg.id);
+    });
+  }
+
+  /** First notification (seen or future) matching `method` and `pred`. */
+  waitFor(method, pred = () => true, timeoutMs = 5000) {
+    const match = (m) => m.method === method && pred(m.params);
+    const seen = this.notifications.find(match);
+    if (seen) return Promise.resolve(seen.params);
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => reject(new Error(`timed out waiting for ${method}`)), timeoutMs);
+      this.waiters.push((m) => {
+        if (!match(m)) return false;
+        clearTimeout(timer);
+        resolve(m.params);
+        return true;
+      });
+    });
+  }
+
+  call(method, params) {
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      this.pending.set(id, (msg) => {
+        if (msg.error) reject(Object.assign(new Error(msg.error.message), msg.error));
+        else resolve(msg.result);
+      });
+      this.ws.send(JSON.stringify({ jsonrpc: "2.0", id, method, params }));
+    });
+  }
+
+  close() {
+    this.ws.close();
+    return this.closed;
+  }
+}
+
+const hello = { client: { name: "ws-test", version: "0" } };
+
+test("auth/pair trades a single-use pair key for a device token", async (t) => {
+  const server = await startServer(t);
+  const phone = await WsClient.open(server);
+  t.after(() => phone.close());
+  await phone.call("initialize", hello);
+  await assert.rejects(phone.call("thread/list", {}), { code: -32010 });
+
+  const firstKey = server.pairKeys[0];
+  const paired = await phone.call("auth/pair", { pair_key: firstKey, device_name: "phone" });
+  assert.equal(paired.name, "phone");
+  assert.match(paired.token, /^cas_/);
+  await phone.call("thread/list", {});
+
+  // The key was replaced, so a second device cannot reuse it
+  const other = await WsClient.open(server);
+  t.after(() => other.close());
+  await other.call("initialize", hello);
+  await assert.rejects(other.call("auth/pair", { pair_key: firstKey }), { code: -32010 });
+  assert.equal(server.pairKeys.length, 2);
+
+  // The token works on a new connection, in the upgrade header or in initialize
+  const again = await WsClient.open(server, paired.token);
+  t.after(() => again.close());
+  const init = await again.call("initialize", hello);
+  assert.equal(init.auth.device.device_id, paired.device_id);
+  const byParam = await WsClient.open(server);
+  t.after(() => byParam.close());
+  await byParam.call("initialize", { ...hello, token: paired.token });
+  await byParam.call("thread/list", {});
+  assert.equal(await (await WsClient.open(server, "cas_bogus")).closed, 4401);
+});
+
+test("auth/devices lists paired devices and auth/revoke closes their connections", async (t) => {
+  const server = await startServer(t);
+  const pair = async (name) => {
+    const client = await WsClient.open(server);
+    await client.call("initialize", hello);
+    const { token, device_id } = await client.call("auth/pair", { pair_key: server.pairKeys.at(-1), device_name: name });
+    return { client, token, device_id };
+  };
+  const laptop = await pair("laptop");
+  t.after(() => laptop.client.close());
+  const phone = await pair("phone");
+
+  const { devices } = await laptop.client.call("auth/devices", {});
+  assert.deepEqual(devices.map(d => [d.name, d.current]), [["laptop", true], ["phone", false]]);
+  assert.ok(!JSON.stringify(devices).includes(phone.token));
+
+  const revoked = await laptop.client.call("auth/revoke", { device_id: phone.device_id });
+  assert.equal(revoked.revoked, true);
+  assert.equal(await phone.client.closed, 4403);
+  assert.equal(await (await WsClient.open(server, phone.token)).closed, 4401);
+});
+
+test("devices revoke on the command line cuts off a connected device", async (t) => {
+  const server = await startServer(t);
+  const client = await WsClient.open(server);
+  await client.call("initialize", hello);
+  const { device_id } = await client.call("auth/pair", { pair_key: server.pairKeys[0] });
+
+  execFileSync(process.execPath, [INDEX, "devices", "revoke", device_id.slice(0, 8)], {
+    env: { ...process.env, CLAUDE_APP_SERVER_HOME: server.home },
+  });
+  await assert.rejects(client.call("thread/list", {}), { code: -32010 });
+  assert.equal(await client.closed, 4403);
+});
+
+test("thread notifications reach every subscriber and can be replayed from a seq", async (t) => {
+  const server = await startServer(t);
+  const laptop = await WsClient.open(server);
+  t.after(() => laptop.close());
+  await laptop.call("initialize", hello);
+  const { token } = await laptop.call("auth/pair", { pair_key: server.pairKeys[0] });
+  const phone = await WsClient.open(server, token);
+  t.after(() => phone.close());
+  const { epoch } = (await phone.call("initialize", hello)).server;
+
+  const { thread_id } = await laptop.call("thread/start", { cwd: server.home });
+  await phone.call("thread/subscribe", { thread_id });
+  const first = await laptop.call("turn/start", { thread_id, content: "Say hello" });
+  const seen = await Promise.all([laptop, phone].map(c => c.waitFor("turn/completed", p => p.turn_id === first.turn_id)));
+  assert.equal(seen[0].seq, seen[1].seq);
+
+  // Once unsubscribed, the phone misses the next turn…
+  assert.equal((await phone.call("thread/unsubscribe", { thread_id })).was_subscribed, true);
+  const second = await laptop.call("turn/start", { thread_id, content: "Say hello" });
+  const completed = await laptop.waitFor("turn/completed", p => p.turn_id === second.turn_id);
+  await phone.call("thread/list", {});   // anything sent before this answer has arrived
+  assert.ok(!phone.notifications.some(n => n.params.turn_id === second.turn_id));
+
+  // …and gets it back in order by re-subscribing after the last seq it saw
+  const back = await phone.call("thread/subscribe", { thread_id, after_seq: seen[1].seq, epoch });
+  assert.deepEqual(back.events, laptop.notifications.filter(n => n.params.seq > seen[1].seq));
+  assert.equal(back.last_seq, completed.seq);
+  await assert.rejects(phone.call("thread/subscribe", { thread_id, after_seq: 0, epoch: "earlier" }), { code: -32006 });
+});
+
+test("repeated wrong pair keys are rate limited", async (t) => {
+  const server = await startServer(t);
+  const client = await WsClient.open(server);
+  t.after(() => client.close());
+  await client.call("initialize", hello);
+  for (let i = 0; i < 5; i++) {
+    await assert.rejects(client.call("auth/pair", { pair_key: "wrong" }), { code: -32010 });
+  }
+  // Even the right key is refused until the window has passed
+  const limited = await client.call("auth/pair", { pair_key: server.pairKeys[0] }).catch(e => e);
+  assert.equal(limited.code, -32011);
+  assert.ok(limited.data.retry_after_ms > 0);
+});
+
+test("the server speaks TLS with the stored certificate", async (t) => {
+  const server = await startServer(t, { secure: true });
+  const shown = execFileSync(process.execPath, [INDEX, "cert"], {
+    env: { ...process.env, CLAUDE_APP_SERVER_HOME: server.home }, encoding: "utf-8",
+  });
+  const fingerprint = /SHA-256:\s+(\S+)/.exec(shown)[1];
+
+  const served = await new Promise((resolve, reject) => {
+    const socket = tls.connect({ host: "127.0.0.1", port: server.port, rejectUnauthorized: false }, () => {
+      resolve(socket.getPeerCertificate().fingerprint256);
+      socket.end();
+    }).once("error", reject);
+  });
+  assert.equal(served, fingerprint);
+
+  const client = await WsClient.open(server);
+  t.after(() => client.close());
+  const init = await client.call("initialize", hello);
+  assert.equal(init.auth.required, true);
+  await assert.rejects(WsClient.open({ ...server, secure: false }));
+});